@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native'
+import Reanimated, {
+  runOnJS,
+  useAnimatedReaction,
+  useDerivedValue,
+  useSharedValue,
+} from 'react-native-reanimated'
+import { GestureDetector } from 'react-native-gesture-handler'
+import {
+  Canvas,
+  Group,
+  Path,
+  Rect,
+  runSpring,
+  useComputedValue,
+  useValue,
+} from '@shopify/react-native-skia'
+
+import type { AnimatedBarGraphProps } from './BarGraphProps'
+import {
+  BarShape,
+  createBarPath,
+  getBarGraphRange,
+  getBarShapes,
+  mixBarShapes,
+} from './CreateBarPath'
+import { getPointsInRange, GraphPathRange } from './CreateGraphPath'
+import { usePanGesture } from './hooks/usePanGesture'
+import { getNearestIndex } from './utils/getNearestIndex'
+
+export function AnimatedBarGraph({
+  points: allPoints,
+  range,
+  color,
+  barWidthRatio = 0.8,
+  enablePanGesture = false,
+  panGestureDelay = 300,
+  horizontalPadding = 0,
+  verticalPadding = 0,
+  unselectedBarOpacity = 0.4,
+  onPointSelected,
+  onGestureStart,
+  onGestureEnd,
+  ...props
+}: AnimatedBarGraphProps): React.ReactElement {
+  const [width, setWidth] = useState(0)
+  const [height, setHeight] = useState(0)
+  const interpolateProgress = useValue(0)
+
+  const { gesture, isActive, x } = usePanGesture({
+    enabled: enablePanGesture,
+    holdDuration: panGestureDelay,
+  })
+  const bars = useSharedValue<BarShape[]>([])
+  const selectedIndex = useSharedValue(-1)
+  const pointSelectedIndex = useRef<number>()
+
+  const shapes = useValue<{ from: BarShape[]; to: BarShape[] }>({
+    from: [],
+    to: [],
+  })
+
+  const onLayout = useCallback(
+    ({ nativeEvent: { layout } }: LayoutChangeEvent) => {
+      setWidth(Math.round(layout.width))
+      setHeight(Math.round(layout.height))
+    },
+    []
+  )
+
+  const pathRange: GraphPathRange = useMemo(
+    () => getBarGraphRange(allPoints, range),
+    [allPoints, range]
+  )
+
+  const pointsInRange = useMemo(
+    () => getPointsInRange(allPoints, pathRange),
+    [allPoints, pathRange]
+  )
+
+  useEffect(() => {
+    if (height < 1 || width < 1) {
+      // view is not yet measured!
+      return
+    }
+
+    const nextShapes = getBarShapes({
+      pointsInRange,
+      range: pathRange,
+      horizontalPadding,
+      verticalPadding,
+      canvasHeight: height,
+      canvasWidth: width,
+      barWidthRatio,
+    })
+
+    // start from wherever the previous animation currently is
+    shapes.current = {
+      from: mixBarShapes(
+        shapes.current.from,
+        shapes.current.to,
+        interpolateProgress.current
+      ),
+      to: nextShapes,
+    }
+    bars.value = nextShapes
+
+    runSpring(
+      interpolateProgress,
+      { from: 0, to: 1 },
+      {
+        mass: 1,
+        stiffness: 500,
+        damping: 400,
+        velocity: 0,
+      }
+    )
+  }, [
+    barWidthRatio,
+    bars,
+    height,
+    horizontalPadding,
+    interpolateProgress,
+    pathRange,
+    pointsInRange,
+    shapes,
+    verticalPadding,
+    width,
+  ])
+
+  const path = useComputedValue(
+    () =>
+      createBarPath(
+        mixBarShapes(
+          shapes.current.from,
+          shapes.current.to,
+          interpolateProgress.current
+        )
+      ),
+    [interpolateProgress]
+  )
+
+  const barsOpacity = useDerivedValue(() =>
+    isActive.value ? unselectedBarOpacity : 1
+  )
+  const selectedBar = useDerivedValue(() =>
+    isActive.value ? bars.value[selectedIndex.value] : undefined
+  )
+  const selectedBarX = useDerivedValue(() =>
+    selectedBar.value != null
+      ? selectedBar.value.x - selectedBar.value.width / 2
+      : 0
+  )
+  const selectedBarY = useDerivedValue(() => selectedBar.value?.top ?? 0)
+  const selectedBarWidth = useDerivedValue(() => selectedBar.value?.width ?? 0)
+  const selectedBarHeight = useDerivedValue(() =>
+    selectedBar.value != null
+      ? selectedBar.value.bottom - selectedBar.value.top
+      : 0
+  )
+
+  const setSelectedIndex = useCallback(
+    (index: number) => {
+      if (pointSelectedIndex.current === index) return
+      pointSelectedIndex.current = index
+
+      const point = pointsInRange[index]
+      if (point != null) onPointSelected?.(point)
+    },
+    [onPointSelected, pointsInRange]
+  )
+
+  const setIsActive = useCallback(
+    (active: boolean) => {
+      if (active) {
+        onGestureStart?.()
+      } else {
+        onGestureEnd?.()
+        pointSelectedIndex.current = undefined
+      }
+    },
+    [onGestureEnd, onGestureStart]
+  )
+
+  useAnimatedReaction(
+    () => x.value,
+    (fingerX) => {
+      if (!isActive.value) return
+
+      const index = getNearestIndex(
+        bars.value.map((bar) => bar.x),
+        fingerX
+      )
+      if (index < 0) return
+
+      selectedIndex.value = index
+      runOnJS(setSelectedIndex)(index)
+    },
+    [bars, isActive, selectedIndex, setSelectedIndex, x]
+  )
+
+  useAnimatedReaction(
+    () => isActive.value,
+    (active) => {
+      runOnJS(setIsActive)(active)
+    },
+    [isActive, setIsActive]
+  )
+
+  return (
+    <View {...props}>
+      <GestureDetector gesture={gesture}>
+        <Reanimated.View style={styles.container} onLayout={onLayout}>
+          <Canvas style={styles.svg}>
+            <Group opacity={barsOpacity}>
+              <Path path={path} color={color} />
+            </Group>
+
+            <Rect
+              x={selectedBarX}
+              y={selectedBarY}
+              width={selectedBarWidth}
+              height={selectedBarHeight}
+              color={color}
+            />
+          </Canvas>
+        </Reanimated.View>
+      </GestureDetector>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  svg: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+})
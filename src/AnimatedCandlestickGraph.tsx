@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native'
+import Reanimated, {
+  runOnJS,
+  useAnimatedReaction,
+  useDerivedValue,
+  useSharedValue,
+} from 'react-native-reanimated'
+import { GestureDetector } from 'react-native-gesture-handler'
+import {
+  Canvas,
+  Group,
+  Line,
+  Path,
+  runSpring,
+  useComputedValue,
+  useValue,
+  vec,
+} from '@shopify/react-native-skia'
+
+import type { AnimatedCandlestickGraphProps } from './CandlestickGraphProps'
+import {
+  CandleShape,
+  createCandlestickPath,
+  getCandleShapes,
+  getCandlestickRange,
+  mixCandleShapes,
+} from './CreateCandlestickPath'
+import { getPointsInRange, GraphPathRange } from './CreateGraphPath'
+import { usePanGesture } from './hooks/usePanGesture'
+import { getNearestIndex } from './utils/getNearestIndex'
+import { DEFAULT_DOWN_COLOR, DEFAULT_UP_COLOR } from './utils/colors'
+
+export function AnimatedCandlestickGraph({
+  points: allPoints,
+  range,
+  upColor = DEFAULT_UP_COLOR,
+  downColor = DEFAULT_DOWN_COLOR,
+  candleWidthRatio = 0.6,
+  wickThickness = 1,
+  enablePanGesture = false,
+  panGestureDelay = 300,
+  horizontalPadding = 0,
+  verticalPadding = 0,
+  selectionLineColor = '#999999',
+  onCandleSelected,
+  onGestureStart,
+  onGestureEnd,
+  ...props
+}: AnimatedCandlestickGraphProps): React.ReactElement {
+  const [width, setWidth] = useState(0)
+  const [height, setHeight] = useState(0)
+  const interpolateProgress = useValue(0)
+
+  const { gesture, isActive, x } = usePanGesture({
+    enabled: enablePanGesture,
+    holdDuration: panGestureDelay,
+  })
+  const selectedX = useSharedValue(0)
+  const candleXs = useSharedValue<number[]>([])
+  const candleSelectedIndex = useRef<number>()
+
+  const shapes = useValue<{ from: CandleShape[]; to: CandleShape[] }>({
+    from: [],
+    to: [],
+  })
+
+  const onLayout = useCallback(
+    ({ nativeEvent: { layout } }: LayoutChangeEvent) => {
+      setWidth(Math.round(layout.width))
+      setHeight(Math.round(layout.height))
+    },
+    []
+  )
+
+  const pathRange: GraphPathRange = useMemo(
+    () => getCandlestickRange(allPoints, range),
+    [allPoints, range]
+  )
+
+  const candlesInRange = useMemo(
+    () => getPointsInRange(allPoints, pathRange),
+    [allPoints, pathRange]
+  )
+
+  useEffect(() => {
+    if (height < 1 || width < 1) {
+      // view is not yet measured!
+      return
+    }
+
+    const nextShapes = getCandleShapes({
+      candlesInRange,
+      range: pathRange,
+      horizontalPadding,
+      verticalPadding,
+      canvasHeight: height,
+      canvasWidth: width,
+      candleWidthRatio,
+    })
+
+    // start from wherever the previous animation currently is
+    shapes.current = {
+      from: mixCandleShapes(
+        shapes.current.from,
+        shapes.current.to,
+        interpolateProgress.current
+      ),
+      to: nextShapes,
+    }
+    candleXs.value = nextShapes.map((shape) => shape.x)
+
+    runSpring(
+      interpolateProgress,
+      { from: 0, to: 1 },
+      {
+        mass: 1,
+        stiffness: 500,
+        damping: 400,
+        velocity: 0,
+      }
+    )
+  }, [
+    candleWidthRatio,
+    candleXs,
+    candlesInRange,
+    height,
+    horizontalPadding,
+    interpolateProgress,
+    pathRange,
+    shapes,
+    verticalPadding,
+    width,
+  ])
+
+  const currentShapes = useComputedValue(
+    () =>
+      mixCandleShapes(
+        shapes.current.from,
+        shapes.current.to,
+        interpolateProgress.current
+      ),
+    [interpolateProgress]
+  )
+  const upPath = useComputedValue(
+    () => createCandlestickPath(currentShapes.current, true, wickThickness),
+    [currentShapes, wickThickness]
+  )
+  const downPath = useComputedValue(
+    () => createCandlestickPath(currentShapes.current, false, wickThickness),
+    [currentShapes, wickThickness]
+  )
+
+  const selectionLineStart = useDerivedValue(() => vec(selectedX.value, 0))
+  const selectionLineEnd = useDerivedValue(() => vec(selectedX.value, height))
+  const selectionLineOpacity = useDerivedValue(() => (isActive.value ? 1 : 0))
+
+  const setSelectedIndex = useCallback(
+    (index: number) => {
+      if (candleSelectedIndex.current === index) return
+      candleSelectedIndex.current = index
+
+      const candle = candlesInRange[index]
+      if (candle != null) onCandleSelected?.(candle)
+    },
+    [candlesInRange, onCandleSelected]
+  )
+
+  const setIsActive = useCallback(
+    (active: boolean) => {
+      if (active) {
+        onGestureStart?.()
+      } else {
+        onGestureEnd?.()
+        candleSelectedIndex.current = undefined
+      }
+    },
+    [onGestureEnd, onGestureStart]
+  )
+
+  useAnimatedReaction(
+    () => x.value,
+    (fingerX) => {
+      if (!isActive.value) return
+
+      const index = getNearestIndex(candleXs.value, fingerX)
+      const candleX = candleXs.value[index]
+      if (candleX == null) return
+
+      selectedX.value = candleX
+      runOnJS(setSelectedIndex)(index)
+    },
+    [candleXs, isActive, selectedX, setSelectedIndex, x]
+  )
+
+  useAnimatedReaction(
+    () => isActive.value,
+    (active) => {
+      runOnJS(setIsActive)(active)
+    },
+    [isActive, setIsActive]
+  )
+
+  return (
+    <View {...props}>
+      <GestureDetector gesture={gesture}>
+        <Reanimated.View style={styles.container} onLayout={onLayout}>
+          <Canvas style={styles.svg}>
+            <Line
+              p1={selectionLineStart}
+              p2={selectionLineEnd}
+              color={selectionLineColor}
+              strokeWidth={1}
+              opacity={selectionLineOpacity}
+            />
+
+            <Group>
+              <Path path={upPath} color={upColor} />
+              <Path path={downPath} color={downColor} />
+            </Group>
+          </Canvas>
+        </Reanimated.View>
+      </GestureDetector>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  svg: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+})
@@ -1,4 +1,11 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import React, {
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
 import { View, StyleSheet, LayoutChangeEvent } from 'react-native'
 import Reanimated, {
   runOnJS,
@@ -11,40 +18,87 @@ import Reanimated, {
   withTiming,
   withDelay,
   withSpring,
+  Easing,
 } from 'react-native-reanimated'
-import { GestureDetector } from 'react-native-gesture-handler'
+import { Gesture, GestureDetector } from 'react-native-gesture-handler'
 
 import {
   Canvas,
-  runSpring,
-  SkPath,
-  LinearGradient,
-  Path,
+  SkiaMutableValue,
   Skia,
   useValue,
-  useComputedValue,
-  vec,
   Group,
   PathCommand,
   mix,
   Circle,
   Shadow,
+  useComputedValue,
+  SkPath,
 } from '@shopify/react-native-skia'
 
-import type { AnimatedLineGraphProps } from './LineGraphProps'
+import type {
+  AnimatedLineGraphProps,
+  GraphAnimationConfig,
+  GraphPoint,
+  LineGraphRef,
+} from './LineGraphProps'
 import { SelectionDot as DefaultSelectionDot } from './SelectionDot'
 import {
+  createGraphBandPath,
+  createGraphGapPath,
   createGraphPath,
   createGraphPathWithGradient,
   getGraphPathRange,
   GraphPathRange,
+  GraphX,
+  GraphXRange,
   getXInRange,
+  getXValueInRange,
+  getNearestPointIndex,
+  getPointXValue,
+  getXValue,
+  getOrdinalIndex,
+  getOrdinalValue,
+  createX,
   getPointsInRange,
+  getValueY,
 } from './CreateGraphPath'
-import { getSixDigitHex } from './utils/getSixDigitHex'
+import {
+  AnimatedSeriesPath,
+  AnimatedSeriesSelectionDot,
+  getFinishedTransitions,
+  getPathTransition,
+  PathTransition,
+  SeriesBaseline,
+} from './AnimatedSeries'
+import { DEFAULT_DOWN_COLOR, DEFAULT_UP_COLOR } from './utils/colors'
 import { usePanGesture } from './hooks/usePanGesture'
+import { useZoomGesture } from './hooks/useZoomGesture'
+import { useRangeSelectionGesture } from './hooks/useRangeSelectionGesture'
 import { getYForX } from './GetYForX'
 import { hexToRgba } from './utils/hexToRgba'
+import { getSixDigitHex } from './utils/getSixDigitHex'
+import { DEFAULT_SERIES_ID, getGraphSeries } from './utils/getGraphSeries'
+import {
+  DEFAULT_TIMING_DURATION,
+  runGraphAnimation,
+} from './utils/runGraphAnimation'
+import { getNearestIndex } from './utils/getNearestIndex'
+import {
+  AxisGridlines,
+  AXIS_LABEL_HEIGHT,
+  DEFAULT_Y_AXIS_WIDTH,
+  XAxisLabels,
+  YAxisLabels,
+} from './GraphAxes'
+import { useAxisTicks } from './hooks/useAxisTicks'
+import { GraphReferenceAreas, GraphReferenceLines } from './GraphReferences'
+import {
+  getAnnotationPositions,
+  getPressedAnnotationIndex,
+  GraphAnnotationMarkers,
+} from './GraphAnnotations'
+import { GraphCrosshair } from './GraphCrosshair'
 
 const INDICATOR_RADIUS = 7
 const INDICATOR_BORDER_MULTIPLIER = 1.3
@@ -53,39 +107,253 @@ const INDICATOR_PULSE_BLUR_RADIUS_SMALL =
 const INDICATOR_PULSE_BLUR_RADIUS_BIG =
   INDICATOR_RADIUS * INDICATOR_BORDER_MULTIPLIER + 20
 
-export function AnimatedLineGraph({
-  points: allPoints,
-  color,
-  gradientFillColors,
-  lineThickness = 3,
-  range,
-  enableFadeInMask,
-  enablePanGesture = false,
-  onPointSelected,
-  onGestureStart,
-  onGestureEnd,
-  panGestureDelay = 300,
-  SelectionDot = DefaultSelectionDot,
-  enableIndicator = false,
-  indicatorPulsating = false,
-  horizontalPadding = enableIndicator
-    ? Math.ceil(INDICATOR_RADIUS * INDICATOR_BORDER_MULTIPLIER)
-    : 0,
-  verticalPadding = lineThickness,
-  TopAxisLabel,
-  BottomAxisLabel,
-  ...props
-}: AnimatedLineGraphProps): React.ReactElement {
+// how long the fingers rest on the graph before a range is selected, if they could also zoom
+const RANGE_SELECTION_HOLD_DURATION = 300
+
+/**
+ * Animates the value from 0 to 1 as configured by the `animation` prop
+ */
+function runProgressAnimation(
+  value: SkiaMutableValue<number>,
+  config: GraphAnimationConfig | undefined,
+  onEnd?: () => void
+): void {
+  // the animation only starts on the next frame, which must not show the end state yet
+  value.current = 0
+  runGraphAnimation(value, { from: 0, to: 1 }, config, onEnd)
+}
+
+/**
+ * Returns the path squashed onto the horizontal line at `y`, which has the
+ * same commands as the path, so it can always be interpolated into it.
+ */
+function getFlattenedPath(path: SkPath, y: number): SkPath {
+  const flattenedPath = path.copy()
+  flattenedPath.transform(Skia.Matrix([1, 0, 0, 0, 0, y, 0, 0, 1]))
+  return flattenedPath
+}
+
+/**
+ * Returns the transitions from the entry paths to the currently displayed paths
+ */
+function getEntryTransitions(
+  transitions: Record<string, PathTransition>,
+  getEntryPath: (path: SkPath) => SkPath
+): Record<string, PathTransition> {
+  const entryTransitions: Record<string, PathTransition> = {}
+  Object.keys(transitions).forEach((id) => {
+    const to = transitions[id]?.to
+    if (to != null)
+      entryTransitions[id] = getPathTransition(
+        undefined,
+        to,
+        1,
+        getEntryPath(to)
+      )
+  })
+  return entryTransitions
+}
+
+/**
+ * Returns the index of the point closest to `index` that has a value, so
+ * scrubbing skips over gaps in the data.
+ */
+function getClosestIndexWithValue(
+  points: { value: number | null }[],
+  index: number
+): number {
+  'worklet'
+
+  for (let offset = 0; offset < points.length; offset++) {
+    if (points[index - offset]?.value != null) return index - offset
+    if (points[index + offset]?.value != null) return index + offset
+  }
+  return index
+}
+
+/**
+ * Identifies the data of the `points` or `series` by the length and last x-value
+ * of each series, so passing equal data in a new array doesn't count as a change.
+ */
+function getDataKey(
+  points: GraphPoint<GraphX>[] | undefined,
+  series: { points: GraphPoint<GraphX>[] }[] | undefined
+): string {
+  const allPoints = series?.map((s) => s.points) ?? [points ?? []]
+  return allPoints
+    .map((p) => {
+      const last = p[p.length - 1]
+      return `${p.length}:${last != null ? getPointXValue(last) : ''}`
+    })
+    .join(',')
+}
+
+/**
+ * The points of a series and their canvas positions, used to look up the
+ * selected point on the UI thread
+ */
+interface SelectionPoints {
+  /**
+   * The x-coordinates of the points, sorted since the points are sorted by date
+   */
+  xs: number[]
+  /**
+   * The numeric x-values (see `getXValue`), values, y-coordinates and labels of the points
+   */
+  points: { x: number; value: number | null; y: number; label?: string }[]
+}
+
+/**
+ * Returns the index of the point of each series the selection snaps to: the
+ * point of the first series closest to `x` by date, and the points of the
+ * other series closest to that one. Returns -1 for empty series.
+ */
+function getSnappedIndices(snapPoints: SelectionPoints[], x: number): number[] {
+  'worklet'
+
+  const primary = snapPoints[0]
+  if (primary == null || primary.xs.length < 1) return snapPoints.map(() => -1)
+
+  const primaryIndex = getClosestIndexWithValue(
+    primary.points,
+    getNearestIndex(primary.xs, x)
+  )
+  const snappedX = primary.xs[primaryIndex] ?? x
+
+  return snapPoints.map((s, i) => {
+    if (i === 0) return primaryIndex
+    if (s.xs.length < 1) return -1
+    return getClosestIndexWithValue(s.points, getNearestIndex(s.xs, snappedX))
+  })
+}
+
+/**
+ * Returns the indices of the points of a series closest to the fingers of a
+ * range selection, or `undefined` if the series is empty.
+ */
+function getRangeIndices(
+  snapPoints: SelectionPoints | undefined,
+  startX: number,
+  endX: number
+): [number, number] | undefined {
+  'worklet'
+
+  if (snapPoints == null || snapPoints.xs.length < 1) return undefined
+
+  return [
+    getClosestIndexWithValue(
+      snapPoints.points,
+      getNearestIndex(snapPoints.xs, startX)
+    ),
+    getClosestIndexWithValue(
+      snapPoints.points,
+      getNearestIndex(snapPoints.xs, endX)
+    ),
+  ]
+}
+
+function AnimatedLineGraphImpl(
+  {
+    points: allPoints,
+    color: lineColor,
+    gradientFillColors,
+    bandColor,
+    lineThickness = 3,
+    series: allSeries,
+    range,
+    enableFadeInMask,
+    baseline,
+    positiveColor = DEFAULT_UP_COLOR,
+    negativeColor = DEFAULT_DOWN_COLOR,
+    positiveGradientFillColors,
+    negativeGradientFillColors,
+    curve,
+    gapThreshold,
+    gapStyle = 'break',
+    downsample,
+    xMode = 'time',
+    yScale = 'linear',
+    enablePanGesture = false,
+    selectionMode = 'interpolated',
+    onPointSelected,
+    onSnapIndexChange,
+    onGestureStart,
+    onGestureEnd,
+    panGestureDelay = 300,
+    crosshair,
+    enableRangeSelection = false,
+    onRangeSelected,
+    enableZoom = false,
+    animation,
+    onAnimationEnd,
+    streaming,
+    visibleRange,
+    onRangeChange,
+    SelectionDot = DefaultSelectionDot,
+    SelectionTooltip,
+    enableIndicator = false,
+    indicatorPulsating = false,
+    horizontalPadding = enableIndicator
+      ? Math.ceil(INDICATOR_RADIUS * INDICATOR_BORDER_MULTIPLIER)
+      : 0,
+    verticalPadding: verticalPaddingProp = allSeries?.reduce(
+      (prev, curr) => Math.max(prev, curr.lineThickness ?? lineThickness),
+      0
+    ) ?? lineThickness,
+    TopAxisLabel,
+    BottomAxisLabel,
+    xAxis,
+    yAxis,
+    referenceLines,
+    referenceAreas,
+    annotations,
+    onAnnotationPress,
+    ...props
+  }: AnimatedLineGraphProps<GraphX>,
+  ref: React.ForwardedRef<LineGraphRef<GraphX>>
+): React.ReactElement {
   const [width, setWidth] = useState(0)
   const [height, setHeight] = useState(0)
   const interpolateProgress = useValue(0)
+  const entry = animation?.entry ?? 'morph'
+  // read through refs, so inline configs and callbacks don't restart the animation on every render
+  const animationConfig = useRef(animation)
+  animationConfig.current = animation
+  const onAnimationEndRef = useRef(onAnimationEnd)
+  onAnimationEndRef.current = onAnimationEnd
+  // drives the `draw` and `fade` entry animations
+  const entryProgress = useValue(entry === 'draw' || entry === 'fade' ? 0 : 1)
 
-  const { gesture, isActive, x } = usePanGesture({
+  // leave room for the y-axis labels at the top and bottom edges
+  const verticalPadding =
+    yAxis != null
+      ? Math.max(verticalPaddingProp, AXIS_LABEL_HEIGHT / 2)
+      : verticalPaddingProp
+  // the y-axis labels on the left shift the canvas to the right
+  const canvasOffsetX =
+    yAxis?.position === 'left' ? yAxis.width ?? DEFAULT_Y_AXIS_WIDTH : 0
+
+  const {
+    gesture: panGesture,
+    isActive,
+    x: gestureX,
+  } = usePanGesture({
     enabled: enablePanGesture,
     holdDuration: panGestureDelay,
   })
+  const x = useDerivedValue(() => gestureX.value - canvasOffsetX)
+  const {
+    gesture: rangeSelectionGesture,
+    isActive: isRangeSelectionActive,
+    start: rangeGestureStart,
+    end: rangeGestureEnd,
+  } = useRangeSelectionGesture({
+    enabled: enableRangeSelection,
+    holdDuration: enableZoom ? RANGE_SELECTION_HOLD_DURATION : undefined,
+  })
   const circleX = useSharedValue(0)
-  const circleY = useSharedValue(0)
+  const circleYs = useSharedValue<number[]>([])
+  const primaryCircleY = useDerivedValue(() => circleYs.value[0] ?? 0)
   const pathEnd = useSharedValue(0)
   const indicatorRadius = useSharedValue(enableIndicator ? INDICATOR_RADIUS : 0)
   const indicatorBorderRadius = useDerivedValue(
@@ -111,14 +379,6 @@ export function AnimatedLineGraph({
     return 0
   })
 
-  const positions = useDerivedValue(() => [
-    0,
-    Math.min(0.15, pathEnd.value),
-    pathEnd.value,
-    pathEnd.value,
-    1,
-  ])
-
   const onLayout = useCallback(
     ({ nativeEvent: { layout } }: LayoutChangeEvent) => {
       setWidth(Math.round(layout.width))
@@ -131,28 +391,154 @@ export function AnimatedLineGraph({
     const path = Skia.Path.Make()
     path.moveTo(0, height / 2)
     for (let i = 0; i < width - 1; i += 2) {
-      const x = i
+      const lineX = i
       const y = height / 2
-      path.cubicTo(x, y, x, y, x, y)
+      path.cubicTo(lineX, y, lineX, y, lineX, y)
     }
 
     return path
   }, [height, width])
 
-  const paths = useValue<{ from?: SkPath; to?: SkPath }>({})
-  const gradientPaths = useValue<{ from?: SkPath; to?: SkPath }>({})
-  const commands = useSharedValue<PathCommand[]>([])
+  const paths = useValue<Record<string, PathTransition>>({})
+  const gradientPaths = useValue<Record<string, PathTransition>>({})
+  const gapPaths = useValue<Record<string, PathTransition>>({})
+  const bandPaths = useValue<Record<string, PathTransition>>({})
+  const baselineYs = useValue<{ from?: number; to?: number }>({})
+  const commands = useSharedValue<PathCommand[][]>([])
   const [commandsChanged, setCommandsChanged] = useState(0)
-  const pointSelectedIndex = useRef<number>()
+  const pointSelectedIndices = useRef<number[]>()
+  const rangeSelectedIndices = useRef<[number, number]>()
+  // whether the paths animate to the next data, see `LineGraphRef.setVisibleRange`
+  const animateNextChange = useRef(true)
+  const previousWindowEnd = useRef<number>()
+  // slides the line (and the indicator along it) to the left after new points were streamed in
+  const streamingOffset = useSharedValue(0)
+
+  // points added through `LineGraphRef.append` by series id, dropped once the data of the `points` or `series` prop changes
+  const [appendedPoints, setAppendedPoints] = useState<
+    Record<string, GraphPoint<GraphX>[]>
+  >({})
+  const dataKey = useMemo(
+    () => getDataKey(allPoints, allSeries),
+    [allPoints, allSeries]
+  )
+  useEffect(() => {
+    setAppendedPoints((previous) =>
+      Object.keys(previous).length > 0 ? {} : previous
+    )
+  }, [dataKey])
+  const streamedPoints = useMemo(() => {
+    const appended = appendedPoints[DEFAULT_SERIES_ID]
+    return allPoints != null && appended != null
+      ? allPoints.concat(appended)
+      : allPoints
+  }, [allPoints, appendedPoints])
+  const streamedSeries = useMemo(
+    () =>
+      allSeries?.map((s) => {
+        const appended = appendedPoints[s.id]
+        return appended != null
+          ? { ...s, points: s.points.concat(appended) }
+          : s
+      }),
+    [allSeries, appendedPoints]
+  )
+
+  const series = useMemo(
+    () =>
+      getGraphSeries({
+        points: streamedPoints,
+        color: lineColor,
+        lineThickness,
+        gradientFillColors,
+        bandColor,
+        series: streamedSeries,
+      }),
+    [
+      bandColor,
+      gradientFillColors,
+      lineColor,
+      lineThickness,
+      streamedPoints,
+      streamedSeries,
+    ]
+  )
+  // The first series drives the indicator and the legacy single-point callbacks
+  const color = series[0]?.color ?? '#000000'
+
+  const fullRange: GraphPathRange = useMemo(
+    () =>
+      getGraphPathRange(
+        series.map((s) => s.points),
+        range,
+        xMode,
+        yScale
+      ),
+    [series, range, xMode, yScale]
+  )
 
-  const pathRange: GraphPathRange = useMemo(
-    () => getGraphPathRange(allPoints, range),
-    [allPoints, range]
+  const [zoomRange, setZoomRange] = useState<GraphXRange<GraphX> | undefined>(
+    visibleRange
   )
+  useEffect(() => {
+    setZoomRange(visibleRange)
+  }, [visibleRange])
+
+  const streamingWindow = streaming?.window
+  // the visible window of a streaming graph always ends at the latest point
+  const windowRange: GraphXRange<GraphX> | undefined = useMemo(() => {
+    if (streamingWindow == null) return undefined
+
+    const { max } = fullRange.x
+    return { min: createX(getXValue(max) - streamingWindow, max), max }
+  }, [fullRange.x, streamingWindow])
+
+  const pathRange: GraphPathRange = useMemo(() => {
+    const visibleXRange = zoomRange ?? windowRange
+    if (visibleXRange == null) return fullRange
+
+    // fit the y-axis to the points that are visible in the zoomed range
+    const zoomedRange = { x: visibleXRange, y: fullRange.y }
+    const visiblePoints = series.map((s) =>
+      getPointsInRange(s.points, zoomedRange)
+    )
+    // without any visible points there is nothing to fit, so keep the y-axis of all points
+    const hasVisiblePoints = visiblePoints.some((p) => p.length > 0)
+    const zoomedPathRange = getGraphPathRange(
+      visiblePoints,
+      {
+        ...range,
+        x: visibleXRange,
+        y: hasVisiblePoints ? range?.y : fullRange.y,
+      },
+      xMode,
+      yScale
+    )
+    // index positions are always based on all points, so the graph doesn't jump while zooming
+    return {
+      ...zoomedPathRange,
+      x: { ...zoomedPathRange.x, ordinalValues: fullRange.x.ordinalValues },
+    }
+  }, [fullRange, range, series, windowRange, xMode, yScale, zoomRange])
+
+  const seriesPointsInRange = useMemo(() => {
+    if (streamingWindow == null || zoomRange != null)
+      return series.map((s) => getPointsInRange(s.points, pathRange))
 
+    // the line continues beyond the left edge, so it doesn't end there while sliding
+    const { min } = pathRange.x
+    const slidingRange = {
+      ...pathRange,
+      x: {
+        ...pathRange.x,
+        min: createX(getXValue(min) - streamingWindow, min),
+      },
+    }
+    return series.map((s) => getPointsInRange(s.points, slidingRange))
+  }, [series, pathRange, streamingWindow, zoomRange])
   const pointsInRange = useMemo(
-    () => getPointsInRange(allPoints, pathRange),
-    [allPoints, pathRange]
+    () => seriesPointsInRange[0] ?? [],
+    [seriesPointsInRange]
   )
 
   const drawingWidth = useMemo(
@@ -160,166 +546,515 @@ export function AnimatedLineGraph({
     [horizontalPadding, width]
   )
 
+  const seriesSelectionPoints: SelectionPoints[] = useMemo(
+    () =>
+      seriesPointsInRange.map((points) => ({
+        xs: points.map(
+          (point) =>
+            getXInRange(drawingWidth, getPointXValue(point), pathRange.x) +
+            horizontalPadding
+        ),
+        points: points.map((point) => ({
+          x: getPointXValue(point),
+          value: point.value,
+          y:
+            point.value != null
+              ? getValueY(point.value, pathRange.y, height, verticalPadding)
+              : 0,
+          label: point.label,
+        })),
+      })),
+    [
+      drawingWidth,
+      height,
+      horizontalPadding,
+      pathRange,
+      seriesPointsInRange,
+      verticalPadding,
+    ]
+  )
+  // the selected point is looked up on the UI thread, so the selection dot and tooltip don't lag behind the finger
+  const selectionPoints = useSharedValue<SelectionPoints[]>([])
+
+  // the selected range snaps onto the points of the first series
+  const selectedRangeXs = useDerivedValue(() => {
+    if (!isRangeSelectionActive.value) return undefined
+
+    const primary = selectionPoints.value[0]
+    const indices = getRangeIndices(
+      primary,
+      rangeGestureStart.value - canvasOffsetX,
+      rangeGestureEnd.value - canvasOffsetX
+    )
+    if (primary == null || indices == null) return undefined
+
+    return [primary.xs[indices[0]] ?? 0, primary.xs[indices[1]] ?? 0]
+  })
+
+  const positions = useDerivedValue(() => {
+    const rangeXs = selectedRangeXs.value
+    if (rangeXs != null && width > 0) {
+      // dims the line outside of the selected range
+      const start = (rangeXs[0] ?? 0) / width
+      const end = (rangeXs[1] ?? 0) / width
+      return [0, start, start, start, end, end, 1]
+    }
+
+    return [
+      0,
+      0,
+      0,
+      Math.min(0.15, pathEnd.value),
+      pathEnd.value,
+      pathEnd.value,
+      1,
+    ]
+  })
+
+  // the gesture zooms linearly along the x-axis, which is by point index on an ordinal axis
+  const { ordinalValues } = fullRange.x
+  const toZoomX = useCallback(
+    (value: GraphX) =>
+      ordinalValues != null
+        ? getOrdinalIndex(ordinalValues, getXValue(value))
+        : getXValue(value),
+    [ordinalValues]
+  )
+  const fromZoomX = useCallback(
+    (zoomX: number) =>
+      createX(
+        ordinalValues != null ? getOrdinalValue(ordinalValues, zoomX) : zoomX,
+        fullRange.x.min
+      ),
+    [fullRange.x.min, ordinalValues]
+  )
+  const zoomBounds = useMemo(
+    () => ({
+      min: toZoomX(fullRange.x.min),
+      max: toZoomX(fullRange.x.max),
+    }),
+    [fullRange.x, toZoomX]
+  )
+  const zoomVisibleRange = useMemo(
+    () =>
+      zoomRange != null
+        ? { min: toZoomX(zoomRange.min), max: toZoomX(zoomRange.max) }
+        : undefined,
+    [toZoomX, zoomRange]
+  )
+  const onZoomRangeChange = useCallback(
+    (min: number, max: number) => {
+      const nextRange = { min: fromZoomX(min), max: fromZoomX(max) }
+      setZoomRange(nextRange)
+      onRangeChange?.(nextRange)
+    },
+    [fromZoomX, onRangeChange]
+  )
+
+  const { gesture: zoomGesture, isActive: isZooming } = useZoomGesture({
+    enabled: enableZoom,
+    bounds: zoomBounds,
+    visibleRange: zoomVisibleRange,
+    offsetX: canvasOffsetX + horizontalPadding,
+    drawingWidth,
+    onRangeChange: onZoomRangeChange,
+  })
+
+  // nothing can be selected while zooming, so the points are only copied to the UI thread once the zoom ends
+  const [isZoomGestureActive, setIsZoomGestureActive] = useState(false)
+  useAnimatedReaction(
+    () => isZooming.value,
+    (zooming) => {
+      runOnJS(setIsZoomGestureActive)(zooming)
+    },
+    [isZooming]
+  )
+  useEffect(() => {
+    if (!isZoomGestureActive) selectionPoints.value = seriesSelectionPoints
+  }, [isZoomGestureActive, selectionPoints, seriesSelectionPoints])
+  const gesture = useMemo(() => {
+    if (!enableRangeSelection)
+      return enableZoom ? Gesture.Race(zoomGesture, panGesture) : panGesture
+
+    // moving two fingers right away zooms, resting them on the graph first selects a range
+    const twoFingerGesture = enableZoom
+      ? Gesture.Race(rangeSelectionGesture, zoomGesture)
+      : rangeSelectionGesture
+    return Gesture.Race(twoFingerGesture, panGesture)
+  }, [
+    enableRangeSelection,
+    enableZoom,
+    panGesture,
+    rangeSelectionGesture,
+    zoomGesture,
+  ])
+
   const lineWidth = useMemo(() => {
     const lastPoint = pointsInRange[pointsInRange.length - 1]
 
     if (lastPoint == null) return drawingWidth
 
-    return Math.max(getXInRange(drawingWidth, lastPoint.date, pathRange.x), 0)
+    return Math.max(
+      getXInRange(drawingWidth, getPointXValue(lastPoint), pathRange.x),
+      0
+    )
   }, [drawingWidth, pathRange.x, pointsInRange])
 
+  const selectedPoint = useDerivedValue(() => {
+    const primary = selectionPoints.value[0]
+    if (primary == null || primary.xs.length < 1) return undefined
+
+    if (selectionMode === 'snapToPoint') {
+      return primary.points[
+        getSnappedIndices(selectionPoints.value, circleX.value)[0] ?? -1
+      ]
+    }
+
+    return primary.points[
+      getClosestIndexWithValue(
+        primary.points,
+        getNearestIndex(primary.xs, circleX.value)
+      )
+    ]
+  })
+  const selectedValue = useDerivedValue(() => selectedPoint.value?.value ?? 0)
+  const selectedX = useDerivedValue(() => selectedPoint.value?.x ?? 0)
+  const selectedLabel = useDerivedValue(() => selectedPoint.value?.label)
+
+  const { xTicks, yTicks } = useAxisTicks({
+    range: pathRange,
+    xAxis,
+    yAxis,
+    canvasWidth: width,
+    canvasHeight: height,
+    horizontalPadding,
+    verticalPadding,
+    series,
+  })
+
   const indicatorX = useDerivedValue(
     () => Math.floor(lineWidth) + horizontalPadding
   )
   const indicatorY = useDerivedValue(
-    () => getYForX(commands.value, indicatorX.value) || 0
+    () =>
+      getYForX(
+        commands.value[0] ?? [],
+        indicatorX.value - streamingOffset.value
+      ) || 0
   )
+  const seriesTransform = useDerivedValue(() => [
+    { translateX: streamingOffset.value },
+  ])
 
   const indicatorPulseColor = useMemo(() => hexToRgba(color, 0.4), [color])
 
-  const shouldFillGradient = gradientFillColors != null
+  const baselineY = useComputedValue(() => {
+    const { from, to } = baselineYs.current
+    if (to == null) return height
+
+    return mix(interpolateProgress.current, from ?? to, to)
+  }, [baselineYs, height, interpolateProgress])
+  const seriesBaseline: SeriesBaseline | undefined = useMemo(
+    () =>
+      baseline != null
+        ? {
+            y: baselineY,
+            positiveColor,
+            negativeColor,
+            positiveGradientFillColors,
+            negativeGradientFillColors,
+          }
+        : undefined,
+    [
+      baseline,
+      baselineY,
+      negativeColor,
+      negativeGradientFillColors,
+      positiveColor,
+      positiveGradientFillColors,
+    ]
+  )
+  const hasBaselineFill =
+    baseline != null &&
+    (positiveGradientFillColors != null || negativeGradientFillColors != null)
+
+  // pinned onto the currently displayed (interpolated) path, so the markers follow the animation
+  const annotationPositions = useComputedValue(() => {
+    if (annotations == null) return []
+
+    const commandsById: Record<string, PathCommand[]> = {}
+    return getAnnotationPositions(
+      annotations,
+      (annotationX) =>
+        getXInRange(drawingWidth, annotationX, pathRange.x) + horizontalPadding,
+      (seriesId = series[0]?.id) => {
+        if (seriesId == null) return undefined
+
+        const transition = paths.current[seriesId]
+        if (transition?.to == null) return undefined
+
+        if (commandsById[seriesId] == null) {
+          const path =
+            transition.from != null
+              ? transition.to.interpolate(
+                  transition.from,
+                  interpolateProgress.current
+                ) ?? transition.to
+              : transition.to
+          commandsById[seriesId] = path.toCmds()
+        }
+        return commandsById[seriesId]
+      }
+    )
+  }, [
+    annotations,
+    drawingWidth,
+    horizontalPadding,
+    interpolateProgress,
+    pathRange.x,
+    paths,
+    series,
+  ])
+
+  const onCanvasTap = useCallback(
+    (tapX: number, tapY: number) => {
+      const index = getPressedAnnotationIndex(
+        annotationPositions.current,
+        tapX,
+        tapY
+      )
+      const annotation = annotations?.[index]
+      if (annotation != null) onAnnotationPress?.(annotation)
+    },
+    [annotationPositions, annotations, onAnnotationPress]
+  )
+  const annotationTapGesture = useMemo(
+    () =>
+      Gesture.Tap()
+        .enabled(annotations != null && onAnnotationPress != null)
+        .onEnd((e) => {
+          // the markers are drawn moved along with the streaming line
+          runOnJS(onCanvasTap)(e.x - streamingOffset.value, e.y)
+        }),
+    [annotations, onAnnotationPress, onCanvasTap, streamingOffset]
+  )
+
+  // once the paths finished morphing, the actual paths replace their resampled versions
+  const finishPathTransitions = useCallback(() => {
+    paths.current = getFinishedTransitions(paths.current)
+    gradientPaths.current = getFinishedTransitions(gradientPaths.current)
+    gapPaths.current = getFinishedTransitions(gapPaths.current)
+    bandPaths.current = getFinishedTransitions(bandPaths.current)
+  }, [bandPaths, gapPaths, gradientPaths, paths])
+  const onPathAnimationEnd = useCallback(() => {
+    finishPathTransitions()
+    onAnimationEndRef.current?.()
+  }, [finishPathTransitions])
+
+  // the path each path animates in from when it is first shown
+  const getEntryPath = useCallback(
+    (path: SkPath) => {
+      switch (entry) {
+        case 'morph':
+          return straightLine
+        case 'grow':
+          return getFlattenedPath(
+            path,
+            baseline != null
+              ? getValueY(baseline, pathRange.y, height, verticalPadding)
+              : height
+          )
+        default:
+          return path
+      }
+    },
+    [baseline, entry, height, pathRange.y, straightLine, verticalPadding]
+  )
 
   useEffect(() => {
     if (height < 1 || width < 1) {
       // view is not yet measured!
       return
     }
-    if (pointsInRange.length < 1) {
+    if (seriesPointsInRange.every((points) => points.length < 1)) {
       // points are still empty!
       return
     }
 
-    let path
-    let gradientPath
+    // new points at the end of a streaming graph slide the line to the left instead of morphing it
+    const windowEnd = getXValue(pathRange.x.max)
+    const previousEnd = previousWindowEnd.current
+    previousWindowEnd.current = windowEnd
+    const isStreamingUpdate =
+      streamingWindow != null &&
+      zoomRange == null &&
+      previousEnd != null &&
+      windowEnd > previousEnd &&
+      windowEnd - previousEnd < streamingWindow
 
-    const createGraphPathProps = {
-      pointsInRange,
-      range: pathRange,
-      horizontalPadding,
-      verticalPadding,
-      canvasHeight: height,
-      canvasWidth: width,
-    }
+    const getTransition = (
+      previous: PathTransition | undefined,
+      next: SkPath
+    ): PathTransition =>
+      isStreamingUpdate
+        ? { from: next, to: next }
+        : getPathTransition(
+            previous,
+            next,
+            interpolateProgress.current,
+            getEntryPath(next)
+          )
 
-    if (shouldFillGradient) {
-      const { path: pathNew, gradientPath: gradientPathNew } =
-        createGraphPathWithGradient(createGraphPathProps)
+    const nextCommands: PathCommand[][] = []
+    const nextPaths: Record<string, PathTransition> = {}
+    const nextGradientPaths: Record<string, PathTransition> = {}
+    const nextGapPaths: Record<string, PathTransition> = {}
+    const nextBandPaths: Record<string, PathTransition> = {}
 
-      path = pathNew
-      gradientPath = gradientPathNew
-    } else {
-      path = createGraphPath(createGraphPathProps)
-    }
-
-    commands.value = path.toCmds()
+    series.forEach((s, i) => {
+      const createGraphPathProps = {
+        pointsInRange: seriesPointsInRange[i] ?? [],
+        range: pathRange,
+        horizontalPadding,
+        verticalPadding,
+        canvasHeight: height,
+        canvasWidth: width,
+        curve,
+        gapThreshold,
+        gapStyle,
+        downsampling: downsample,
+        fillBaseline: baseline,
+      }
 
-    if (gradientPath != null) {
-      const previous = gradientPaths.current
-      let from: SkPath = previous.to ?? straightLine
-      if (previous.from != null && interpolateProgress.current < 1)
-        from =
-          from.interpolate(previous.from, interpolateProgress.current) ?? from
+      let path
+      if (s.gradientFillColors != null || hasBaselineFill) {
+        const { path: pathNew, gradientPath: gradientPathNew } =
+          createGraphPathWithGradient(createGraphPathProps)
 
-      if (gradientPath.isInterpolatable(from)) {
-        gradientPaths.current = {
-          from,
-          to: gradientPath,
-        }
+        path = pathNew
+        nextGradientPaths[s.id] = getTransition(
+          gradientPaths.current[s.id],
+          gradientPathNew
+        )
       } else {
-        gradientPaths.current = {
-          from: gradientPath,
-          to: gradientPath,
-        }
+        path = createGraphPath(createGraphPathProps)
       }
-    }
 
-    const previous = paths.current
-    let from: SkPath = previous.to ?? straightLine
-    if (previous.from != null && interpolateProgress.current < 1)
-      from =
-        from.interpolate(previous.from, interpolateProgress.current) ?? from
+      if (gapStyle === 'dashed') {
+        nextGapPaths[s.id] = getTransition(
+          gapPaths.current[s.id],
+          createGraphGapPath(createGraphPathProps)
+        )
+      }
 
-    if (path.isInterpolatable(from)) {
-      paths.current = {
-        from,
-        to: path,
+      if (s.hasBand) {
+        nextBandPaths[s.id] = getTransition(
+          bandPaths.current[s.id],
+          createGraphBandPath(createGraphPathProps)
+        )
       }
-    } else {
-      paths.current = {
-        from: path,
-        to: path,
+
+      nextCommands.push(path.toCmds())
+      nextPaths[s.id] = getTransition(paths.current[s.id], path)
+    })
+
+    if (baseline != null) {
+      // the baseline moves together with the paths, so the color split stays exact
+      const { from, to } = baselineYs.current
+      const nextBaselineY = getValueY(
+        baseline,
+        pathRange.y,
+        height,
+        verticalPadding
+      )
+      baselineYs.current = {
+        from:
+          from != null && to != null && !isStreamingUpdate
+            ? mix(interpolateProgress.current, from, to)
+            : nextBaselineY,
+        to: nextBaselineY,
       }
     }
 
+    commands.value = nextCommands
+    paths.current = nextPaths
+    gradientPaths.current = nextGradientPaths
+    gapPaths.current = nextGapPaths
+    bandPaths.current = nextBandPaths
+
     setCommandsChanged(commandsChanged + 1)
 
-    runSpring(
+    if (isZooming.value) {
+      // follow the fingers immediately instead of animating every zoom step
+      interpolateProgress.current = 1
+      finishPathTransitions()
+      return
+    }
+
+    if (!animateNextChange.current) {
+      animateNextChange.current = true
+      interpolateProgress.current = 1
+      finishPathTransitions()
+      return
+    }
+
+    if (isStreamingUpdate) {
+      // keep the line where it was, and slide it to its new position
+      const shift =
+        drawingWidth -
+        getXInRange(
+          drawingWidth,
+          createX(previousEnd, pathRange.x.max),
+          pathRange.x
+        )
+      interpolateProgress.current = 1
+      streamingOffset.value += shift
+      streamingOffset.value = withTiming(0, {
+        duration: animationConfig.current?.duration ?? DEFAULT_TIMING_DURATION,
+        easing: Easing.linear,
+      })
+      return
+    }
+
+    if (commandsChanged === 0 && (entry === 'draw' || entry === 'fade'))
+      runProgressAnimation(entryProgress, animationConfig.current)
+    runProgressAnimation(
       interpolateProgress,
-      { from: 0, to: 1 },
-      {
-        mass: 1,
-        stiffness: 500,
-        damping: 400,
-        velocity: 0,
-      }
+      animationConfig.current,
+      onPathAnimationEnd
     )
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
+    bandPaths,
+    baseline,
+    baselineYs,
+    drawingWidth,
+    finishPathTransitions,
+    curve,
+    downsample,
+    gapPaths,
+    gapStyle,
+    gapThreshold,
+    hasBaselineFill,
     height,
     horizontalPadding,
     interpolateProgress,
+    isZooming,
+    onPathAnimationEnd,
     pathRange,
     paths,
-    shouldFillGradient,
+    getEntryPath,
     gradientPaths,
-    pointsInRange,
+    series,
+    seriesPointsInRange,
     range,
-    straightLine,
+    streamingOffset,
+    streamingWindow,
     verticalPadding,
     width,
+    zoomRange,
   ])
 
-  const gradientColors = useMemo(() => {
-    if (enableFadeInMask) {
-      return [
-        `${getSixDigitHex(color)}00`,
-        `${getSixDigitHex(color)}ff`,
-        `${getSixDigitHex(color)}ff`,
-        `${getSixDigitHex(color)}33`,
-        `${getSixDigitHex(color)}33`,
-      ]
-    }
-    return [
-      color,
-      color,
-      color,
-      `${getSixDigitHex(color)}33`,
-      `${getSixDigitHex(color)}33`,
-    ]
-  }, [color, enableFadeInMask])
-
-  const path = useComputedValue(
-    () => {
-      const from = paths.current.from ?? straightLine
-      const to = paths.current.to ?? straightLine
-
-      return to.interpolate(from, interpolateProgress.current)
-    },
-    // RN Skia deals with deps differently. They are actually the required SkiaValues that the derived value listens to, not react values.
-    [interpolateProgress]
-  )
-
-  const gradientPath = useComputedValue(
-    () => {
-      const from = gradientPaths.current.from ?? straightLine
-      const to = gradientPaths.current.to ?? straightLine
-
-      return to.interpolate(from, interpolateProgress.current)
-    },
-    // RN Skia deals with deps differently. They are actually the required SkiaValues that the derived value listens to, not react values.
-    [interpolateProgress]
-  )
-
   const stopPulsating = useCallback(() => {
     cancelAnimation(indicatorPulseAnimation)
     indicatorPulseAnimation.value = 0
@@ -343,25 +1078,46 @@ export function AnimatedLineGraph({
 
   const setFingerPoint = useCallback(
     (fingerX: number) => {
-      const fingerXInRange = Math.max(fingerX - horizontalPadding, 0)
-
-      const index = Math.round(
-        (fingerXInRange /
-          getXInRange(
-            drawingWidth,
-            pointsInRange[pointsInRange.length - 1]!.date,
-            pathRange.x
-          )) *
-          (pointsInRange.length - 1)
+      const fingerXValue = getXValueInRange(
+        drawingWidth,
+        fingerX - horizontalPadding,
+        pathRange.x
       )
-      const pointIndex = Math.min(Math.max(index, 0), pointsInRange.length - 1)
 
-      if (pointSelectedIndex.current !== pointIndex) {
-        const dataPoint = pointsInRange[pointIndex]
-        pointSelectedIndex.current = pointIndex
+      const pointIndices =
+        selectionMode === 'snapToPoint'
+          ? getSnappedIndices(seriesSelectionPoints, fingerX)
+          : seriesPointsInRange.map((points) => {
+              const index = getNearestPointIndex(points, fingerXValue)
+              if (index < 0) return -1
+              return getClosestIndexWithValue(points, index)
+            })
+
+      const previousIndices = pointSelectedIndices.current
+      const hasChanged =
+        previousIndices == null ||
+        pointIndices.some((index, i) => previousIndices[i] !== index)
+
+      if (hasChanged) {
+        pointSelectedIndices.current = pointIndices
 
+        const seriesPoints: Record<string, GraphPoint<GraphX>> = {}
+        series.forEach((s, i) => {
+          const dataPoint = seriesPointsInRange[i]?.[pointIndices[i] ?? -1]
+          if (dataPoint != null) seriesPoints[s.id] = dataPoint
+        })
+
+        const dataPoint = pointsInRange[pointIndices[0] ?? -1]
         if (dataPoint != null) {
-          onPointSelected?.(dataPoint)
+          onPointSelected?.(dataPoint, seriesPoints)
+        }
+
+        if (
+          selectionMode === 'snapToPoint' &&
+          dataPoint != null &&
+          previousIndices?.[0] !== pointIndices[0]
+        ) {
+          onSnapIndexChange?.(pointIndices[0]!, dataPoint)
         }
       }
     },
@@ -369,27 +1125,119 @@ export function AnimatedLineGraph({
       drawingWidth,
       horizontalPadding,
       onPointSelected,
+      onSnapIndexChange,
       pathRange.x,
       pointsInRange,
+      selectionMode,
+      series,
+      seriesPointsInRange,
+      seriesSelectionPoints,
     ]
   )
 
+  const setRangeSelection = useCallback(
+    (rangeXs: number[] | undefined) => {
+      const indices =
+        rangeXs != null
+          ? getRangeIndices(
+              seriesSelectionPoints[0],
+              rangeXs[0] ?? 0,
+              rangeXs[1] ?? 0
+            )
+          : undefined
+
+      const previousIndices = rangeSelectedIndices.current
+      rangeSelectedIndices.current = indices
+      if (
+        indices == null ||
+        (previousIndices?.[0] === indices[0] &&
+          previousIndices[1] === indices[1])
+      ) {
+        return
+      }
+
+      const start = pointsInRange[indices[0]]
+      const end = pointsInRange[indices[1]]
+      if (start?.value == null || end?.value == null) return
+
+      const absoluteChange = end.value - start.value
+      onRangeSelected?.({
+        start,
+        end,
+        absoluteChange,
+        percentChange:
+          start.value !== 0
+            ? (absoluteChange / Math.abs(start.value)) * 100
+            : null,
+      })
+    },
+    [onRangeSelected, pointsInRange, seriesSelectionPoints]
+  )
+
   const setFingerX = useCallback(
     (fingerX: number) => {
       'worklet'
 
-      const y = getYForX(commands.value, fingerX)
+      if (selectionMode === 'snapToPoint') {
+        const indices = getSnappedIndices(selectionPoints.value, fingerX)
+        const snappedX = selectionPoints.value[0]?.xs[indices[0] ?? -1]
+
+        if (snappedX != null) {
+          circleX.value = snappedX
+          circleYs.value = indices.map(
+            (index, i) =>
+              selectionPoints.value[i]?.points[index]?.y ??
+              circleYs.value[i] ??
+              0
+          )
+          if (isActive.value) pathEnd.value = snappedX / width
+        }
+        return
+      }
+
+      const ys = commands.value.map((cmds) => getYForX(cmds, fingerX))
+
+      const primary = selectionPoints.value[0]
+      if (ys[0] == null && primary != null) {
+        // inside a gap of the first series, the dot snaps onto the closest point with a value, which is the selected one
+        const index = getClosestIndexWithValue(
+          primary.points,
+          getNearestIndex(primary.xs, fingerX)
+        )
+        const snappedX = primary.xs[index]
+        const snappedY = primary.points[index]?.y
+        if (snappedX == null || snappedY == null) return
+
+        circleX.value = snappedX
+        circleYs.value = commands.value.map((cmds, i) =>
+          i === 0
+            ? snappedY
+            : getYForX(cmds, snappedX) ?? circleYs.value[i] ?? 0
+        )
+        if (isActive.value) pathEnd.value = snappedX / width
+        return
+      }
 
-      if (y != null) {
+      if (ys.some((y) => y != null)) {
         circleX.value = fingerX
-        circleY.value = y
+        circleYs.value = ys.map((y, i) => y ?? circleYs.value[i] ?? 0)
       }
 
       if (isActive.value) pathEnd.value = fingerX / width
     },
     // pathRange.x must be extra included in deps otherwise onPointSelected doesn't work, IDK why
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [circleX, circleY, isActive, pathEnd, pathRange.x, width, commands]
+    [
+      circleX,
+      circleYs,
+      isActive,
+      pathEnd,
+      pathRange.x,
+      selectionMode,
+      selectionPoints,
+      width,
+      commands,
+    ]
   )
 
   const setIsActive = useCallback(
@@ -406,7 +1254,7 @@ export function AnimatedLineGraph({
         stopPulsating()
       } else {
         onGestureEnd?.()
-        pointSelectedIndex.current = undefined
+        pointSelectedIndices.current = undefined
         pathEnd.value = 1
         startPulsating()
       }
@@ -432,6 +1280,26 @@ export function AnimatedLineGraph({
     [isActive, setFingerX, width, x]
   )
 
+  useAnimatedReaction(
+    () =>
+      isRangeSelectionActive.value
+        ? [
+            rangeGestureStart.value - canvasOffsetX,
+            rangeGestureEnd.value - canvasOffsetX,
+          ]
+        : undefined,
+    (rangeXs) => {
+      runOnJS(setRangeSelection)(rangeXs)
+    },
+    [
+      canvasOffsetX,
+      isRangeSelectionActive,
+      rangeGestureEnd,
+      rangeGestureStart,
+      setRangeSelection,
+    ]
+  )
+
   useAnimatedReaction(
     () => isActive.value,
     (active) => {
@@ -440,6 +1308,110 @@ export function AnimatedLineGraph({
     [isActive, setIsActive]
   )
 
+  useImperativeHandle(
+    ref,
+    () => ({
+      append: (newPoints, seriesId = series[0]?.id ?? DEFAULT_SERIES_ID) => {
+        setAppendedPoints((previous) => {
+          const appended = (previous[seriesId] ?? []).concat(newPoints)
+          const last = appended[appended.length - 1]
+          if (streamingWindow == null || last == null)
+            return { ...previous, [seriesId]: appended }
+
+          // the line is drawn up to one window beyond the left edge while it slides, anything older is never shown again
+          const minX = getPointXValue(last) - 2 * streamingWindow
+          return {
+            ...previous,
+            [seriesId]: appended.filter(
+              (point) => getPointXValue(point) >= minX
+            ),
+          }
+        })
+      },
+      selectPoint: (target) => {
+        const index =
+          typeof target === 'object' && !(target instanceof Date)
+            ? target.index
+            : getNearestPointIndex(pointsInRange, getXValue(target))
+        if (pointsInRange[index] == null) return
+
+        const pointX =
+          seriesSelectionPoints[0]?.xs[
+            getClosestIndexWithValue(pointsInRange, index)
+          ]
+        if (pointX == null) return
+
+        // behaves like a pan gesture to that point
+        isActive.value = true
+        gestureX.value = pointX + canvasOffsetX
+      },
+      clearSelection: () => {
+        isActive.value = false
+      },
+      setVisibleRange: (nextRange, options) => {
+        const isUnchanged =
+          nextRange != null && zoomRange != null
+            ? getXValue(nextRange.min) === getXValue(zoomRange.min) &&
+              getXValue(nextRange.max) === getXValue(zoomRange.max)
+            : nextRange === zoomRange
+        // the paths don't change, so nothing would consume the flag
+        if (isUnchanged) return
+
+        animateNextChange.current = options?.animated ?? true
+        setZoomRange(nextRange)
+        onRangeChange?.(
+          nextRange ?? { min: fullRange.x.min, max: fullRange.x.max }
+        )
+      },
+      replayEntryAnimation: () => {
+        paths.current = getEntryTransitions(paths.current, getEntryPath)
+        gradientPaths.current = getEntryTransitions(
+          gradientPaths.current,
+          getEntryPath
+        )
+        gapPaths.current = getEntryTransitions(gapPaths.current, getEntryPath)
+        bandPaths.current = getEntryTransitions(bandPaths.current, getEntryPath)
+
+        if (entry === 'draw' || entry === 'fade')
+          runProgressAnimation(entryProgress, animationConfig.current)
+        runProgressAnimation(
+          interpolateProgress,
+          animationConfig.current,
+          onPathAnimationEnd
+        )
+      },
+      getPointAt: (canvasX) => {
+        const primary = seriesSelectionPoints[0]
+        if (primary == null) return undefined
+
+        const index = getNearestIndex(primary.xs, canvasX)
+        return pointsInRange[getClosestIndexWithValue(pointsInRange, index)]
+      },
+    }),
+    [
+      bandPaths,
+      canvasOffsetX,
+      entry,
+      entryProgress,
+      fullRange.x.max,
+      fullRange.x.min,
+      gapPaths,
+      getEntryPath,
+      gestureX,
+      gradientPaths,
+      interpolateProgress,
+      isActive,
+      onPathAnimationEnd,
+      onRangeChange,
+      paths,
+      pointsInRange,
+      series,
+      seriesSelectionPoints,
+      streamingWindow,
+      zoomRange,
+    ]
+  )
+
   useEffect(() => {
     if (pointsInRange.length !== 0 && commands.value.length !== 0)
       pathEnd.value = 1
@@ -459,6 +1431,19 @@ export function AnimatedLineGraph({
 
   const indicatorVisible = enableIndicator && commandsChanged > 0
 
+  const referencesProps = {
+    range: pathRange,
+    width,
+    height,
+    horizontalPadding,
+    verticalPadding,
+    animated: true,
+    animation,
+    isZooming,
+    xTransform: seriesTransform,
+  }
+  const isMeasured = width > 0 && height > 0
+
   return (
     <View {...props}>
       <GestureDetector gesture={gesture}>
@@ -470,81 +1455,176 @@ export function AnimatedLineGraph({
             </View>
           )}
 
-          {/* Actual Skia Graph */}
-          <View style={styles.container} onLayout={onLayout}>
-            {/* Fix for react-native-skia's incorrect type declarations */}
-            <Canvas style={styles.svg}>
-              <Group>
-                <Path
-                  // @ts-expect-error
-                  path={path}
-                  strokeWidth={lineThickness}
-                  style="stroke"
-                  strokeJoin="round"
-                  strokeCap="round"
-                >
-                  <LinearGradient
-                    start={vec(0, 0)}
-                    end={vec(width, 0)}
-                    colors={gradientColors}
-                    positions={positions}
-                  />
-                </Path>
-
-                {shouldFillGradient && (
-                  <Path
-                    // @ts-expect-error
-                    path={gradientPath}
-                  >
-                    <LinearGradient
-                      start={vec(0, 0)}
-                      end={vec(0, height)}
-                      colors={gradientFillColors}
-                    />
-                  </Path>
-                )}
-              </Group>
-
-              {SelectionDot != null && (
-                <SelectionDot
-                  isActive={isActive}
-                  color={color}
-                  lineThickness={lineThickness}
-                  circleX={circleX}
-                  circleY={circleY}
-                />
-              )}
+          <View style={styles.row}>
+            {yAxis != null && yAxis.position === 'left' && (
+              <YAxisLabels ticks={yTicks} config={yAxis} />
+            )}
 
-              {indicatorVisible && (
-                <Group>
-                  {indicatorPulsating && (
-                    <Circle
-                      cx={indicatorX}
-                      cy={indicatorY}
-                      r={indicatorPulseRadius}
-                      opacity={indicatorPulseOpacity}
-                      color={indicatorPulseColor}
-                      style="fill"
+            <View style={styles.container}>
+              {/* Actual Skia Graph */}
+              <GestureDetector gesture={annotationTapGesture}>
+                <View style={styles.container} onLayout={onLayout}>
+                  <Canvas style={styles.svg}>
+                    <AxisGridlines
+                      xTicks={xTicks}
+                      yTicks={yTicks}
+                      xAxis={xAxis}
+                      yAxis={yAxis}
+                      width={width}
+                      height={height}
                     />
-                  )}
-
-                  <Circle
-                    cx={indicatorX}
-                    cy={indicatorY}
-                    r={indicatorBorderRadius}
-                    color="#ffffff"
-                  >
-                    <Shadow dx={2} dy={2} color="rgba(0,0,0,0.2)" blur={4} />
-                  </Circle>
-                  <Circle
-                    cx={indicatorX}
-                    cy={indicatorY}
-                    r={indicatorRadius}
-                    color={color}
-                  />
-                </Group>
+
+                    {isMeasured && referenceAreas != null && (
+                      <GraphReferenceAreas
+                        areas={referenceAreas}
+                        {...referencesProps}
+                      />
+                    )}
+
+                    <Group
+                      opacity={entry === 'fade' ? entryProgress : 1}
+                      transform={seriesTransform}
+                    >
+                      {series.map((s) => (
+                        <AnimatedSeriesPath
+                          key={s.id}
+                          id={s.id}
+                          paths={paths}
+                          gradientPaths={gradientPaths}
+                          gapPaths={gapPaths}
+                          bandPaths={bandPaths}
+                          interpolateProgress={interpolateProgress}
+                          straightLine={straightLine}
+                          color={s.color}
+                          lineThickness={s.lineThickness}
+                          gradientFillColors={s.gradientFillColors}
+                          bandColor={
+                            s.hasBand
+                              ? s.bandColor ?? `${getSixDigitHex(s.color)}33`
+                              : undefined
+                          }
+                          enableFadeInMask={enableFadeInMask}
+                          enableDashedGaps={gapStyle === 'dashed'}
+                          positions={positions}
+                          drawProgress={
+                            entry === 'draw' ? entryProgress : undefined
+                          }
+                          width={width}
+                          height={height}
+                          baseline={seriesBaseline}
+                        />
+                      ))}
+                    </Group>
+
+                    {isMeasured && referenceLines != null && (
+                      <GraphReferenceLines
+                        lines={referenceLines}
+                        {...referencesProps}
+                      />
+                    )}
+
+                    {annotations != null && (
+                      <Group transform={seriesTransform}>
+                        <GraphAnnotationMarkers
+                          annotations={annotations}
+                          positions={annotationPositions}
+                        />
+                      </Group>
+                    )}
+
+                    {crosshair != null && (
+                      <GraphCrosshair
+                        config={crosshair}
+                        isActive={isActive}
+                        circleX={circleX}
+                        circleY={primaryCircleY}
+                        width={width}
+                        height={height}
+                        yAxisPosition={
+                          yAxis?.position === 'left' ? 'left' : 'right'
+                        }
+                      />
+                    )}
+
+                    {SelectionDot != null &&
+                      series.map((s, i) => (
+                        <AnimatedSeriesSelectionDot
+                          key={s.id}
+                          index={i}
+                          SelectionDot={SelectionDot}
+                          isActive={isActive}
+                          color={s.color}
+                          lineThickness={s.lineThickness}
+                          circleX={circleX}
+                          circleYs={circleYs}
+                        />
+                      ))}
+
+                    {SelectionTooltip != null && (
+                      <SelectionTooltip
+                        isActive={isActive}
+                        color={color}
+                        circleX={circleX}
+                        circleY={primaryCircleY}
+                        value={selectedValue}
+                        date={selectedX}
+                        label={selectedLabel}
+                        xType={
+                          typeof fullRange.x.min === 'number'
+                            ? 'number'
+                            : 'date'
+                        }
+                        canvasWidth={width}
+                        canvasHeight={height}
+                      />
+                    )}
+
+                    {indicatorVisible && (
+                      <Group>
+                        {indicatorPulsating && (
+                          <Circle
+                            cx={indicatorX}
+                            cy={indicatorY}
+                            r={indicatorPulseRadius}
+                            opacity={indicatorPulseOpacity}
+                            color={indicatorPulseColor}
+                            style="fill"
+                          />
+                        )}
+
+                        <Circle
+                          cx={indicatorX}
+                          cy={indicatorY}
+                          r={indicatorBorderRadius}
+                          color="#ffffff"
+                        >
+                          <Shadow
+                            dx={2}
+                            dy={2}
+                            color="rgba(0,0,0,0.2)"
+                            blur={4}
+                          />
+                        </Circle>
+                        <Circle
+                          cx={indicatorX}
+                          cy={indicatorY}
+                          r={indicatorRadius}
+                          color={color}
+                        />
+                      </Group>
+                    )}
+                  </Canvas>
+                </View>
+              </GestureDetector>
+
+              {xAxis != null && (
+                <XAxisLabels ticks={xTicks} config={xAxis} width={width} />
               )}
-            </Canvas>
+            </View>
+
+            {yAxis != null && yAxis.position !== 'left' && (
+              <YAxisLabels ticks={yTicks} config={yAxis} />
+            )}
           </View>
 
           {/* Bottom Label (min price) */}
@@ -559,6 +1639,8 @@ export function AnimatedLineGraph({
   )
 }
 
+export const AnimatedLineGraph = React.forwardRef(AnimatedLineGraphImpl)
+
 const styles = StyleSheet.create({
   svg: {
     flex: 1,
@@ -566,6 +1648,10 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  row: {
+    flex: 1,
+    flexDirection: 'row',
+  },
   axisRow: {
     height: 17,
   },
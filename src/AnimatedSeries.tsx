@@ -0,0 +1,362 @@
+import React, { useMemo } from 'react'
+import { SharedValue, useDerivedValue } from 'react-native-reanimated'
+import {
+  Color,
+  DashPathEffect,
+  Group,
+  LinearGradient,
+  Path,
+  SkiaMutableValue,
+  SkiaValue,
+  SkPath,
+  rect,
+  useComputedValue,
+  vec,
+} from '@shopify/react-native-skia'
+
+import type { SelectionDotProps } from './LineGraphProps'
+import { getInterpolatablePaths } from './CreateGraphPath'
+import { getSixDigitHex } from './utils/getSixDigitHex'
+
+export interface PathTransition {
+  from?: SkPath
+  to?: SkPath
+  /**
+   * The actual next path if `from` and `to` are resampled versions of the
+   * paths, see `getFinishedTransitions`
+   */
+  target?: SkPath
+}
+
+/**
+ * Returns the transition from the currently displayed path (which might be
+ * in the middle of an animation) to the next path.
+ */
+export function getPathTransition(
+  previous: PathTransition | undefined,
+  next: SkPath,
+  progress: number,
+  fallback: SkPath
+): PathTransition {
+  let from: SkPath = previous?.to ?? fallback
+  if (previous?.from != null && progress < 1)
+    from = from.interpolate(previous.from, progress) ?? from
+
+  if (next.isInterpolatable(from)) {
+    return {
+      from,
+      to: next,
+    }
+  }
+
+  // e.g. a different number of points, so both paths are resampled to morph smoothly
+  const resampled = getInterpolatablePaths(from, next)
+  if (resampled != null) return { ...resampled, target: next }
+
+  return {
+    from: next,
+    to: next,
+  }
+}
+
+/**
+ * Returns the transitions with their resampled paths replaced by the actual
+ * paths, so the resampled paths are only displayed while they are morphing.
+ */
+export function getFinishedTransitions(
+  transitions: Record<string, PathTransition>
+): Record<string, PathTransition> {
+  const finishedTransitions: Record<string, PathTransition> = {}
+  Object.keys(transitions).forEach((id) => {
+    const transition = transitions[id]
+    if (transition == null) return
+
+    finishedTransitions[id] =
+      transition.target != null
+        ? { from: transition.target, to: transition.target }
+        : transition
+  })
+  return finishedTransitions
+}
+
+/**
+ * Colors the series differently above and below the baseline
+ */
+export interface SeriesBaseline {
+  /**
+   * The y coordinate of the baseline, follows the path interpolation
+   */
+  y: SkiaValue<number>
+  positiveColor: string
+  negativeColor: string
+  positiveGradientFillColors?: Color[]
+  negativeGradientFillColors?: Color[]
+}
+
+/**
+ * The colors of the line's gradient: dimmed before a selected range, the
+ * (faded in) line, and dimmed after the selection or the finger.
+ */
+function getStrokeColors(color: string, enableFadeInMask?: boolean): string[] {
+  if (enableFadeInMask) {
+    return [
+      `${getSixDigitHex(color)}33`,
+      `${getSixDigitHex(color)}33`,
+      `${getSixDigitHex(color)}00`,
+      `${getSixDigitHex(color)}ff`,
+      `${getSixDigitHex(color)}ff`,
+      `${getSixDigitHex(color)}33`,
+      `${getSixDigitHex(color)}33`,
+    ]
+  }
+  return [
+    `${getSixDigitHex(color)}33`,
+    `${getSixDigitHex(color)}33`,
+    color,
+    color,
+    color,
+    `${getSixDigitHex(color)}33`,
+    `${getSixDigitHex(color)}33`,
+  ]
+}
+
+interface AnimatedSeriesPathProps {
+  id: string
+  paths: SkiaMutableValue<Record<string, PathTransition>>
+  gradientPaths: SkiaMutableValue<Record<string, PathTransition>>
+  gapPaths: SkiaMutableValue<Record<string, PathTransition>>
+  bandPaths: SkiaMutableValue<Record<string, PathTransition>>
+  interpolateProgress: SkiaValue<number>
+  straightLine: SkPath
+  color: string
+  lineThickness: number
+  gradientFillColors?: Color[]
+  bandColor?: Color
+  enableFadeInMask?: boolean
+  enableDashedGaps: boolean
+  positions: SharedValue<number[]>
+  /**
+   * The trimmed end of the line (and the opacity of its fill), for drawing the line from left to right
+   */
+  drawProgress?: SkiaValue<number>
+  width: number
+  height: number
+  baseline?: SeriesBaseline
+}
+
+export function AnimatedSeriesPath({
+  id,
+  paths,
+  gradientPaths,
+  gapPaths,
+  bandPaths,
+  interpolateProgress,
+  straightLine,
+  color,
+  lineThickness,
+  gradientFillColors,
+  bandColor,
+  enableFadeInMask,
+  enableDashedGaps,
+  positions,
+  drawProgress,
+  width,
+  height,
+  baseline,
+}: AnimatedSeriesPathProps): React.ReactElement {
+  const gradientColors = useMemo(
+    () => getStrokeColors(color, enableFadeInMask),
+    [color, enableFadeInMask]
+  )
+  const positiveColors = useMemo(
+    () =>
+      baseline != null
+        ? getStrokeColors(baseline.positiveColor, enableFadeInMask)
+        : [],
+    [baseline, enableFadeInMask]
+  )
+  const negativeColors = useMemo(
+    () =>
+      baseline != null
+        ? getStrokeColors(baseline.negativeColor, enableFadeInMask)
+        : [],
+    [baseline, enableFadeInMask]
+  )
+
+  const baselineY = baseline?.y
+  const positiveClip = useComputedValue(
+    () => rect(0, 0, width, baselineY?.current ?? height),
+    [baselineY, height, width]
+  )
+  const negativeClip = useComputedValue(() => {
+    const y = baselineY?.current ?? height
+    return rect(0, y, width, height - y)
+  }, [baselineY, height, width])
+  const baselineVec = useComputedValue(
+    () => vec(0, baselineY?.current ?? height),
+    [baselineY, height]
+  )
+
+  const path = useComputedValue(
+    () => {
+      const from = paths.current[id]?.from ?? straightLine
+      const to = paths.current[id]?.to ?? straightLine
+
+      return to.interpolate(from, interpolateProgress.current)
+    },
+    // RN Skia deals with deps differently. They are actually the required SkiaValues that the derived value listens to, not react values.
+    [interpolateProgress, paths]
+  )
+
+  const gradientPath = useComputedValue(
+    () => {
+      const from = gradientPaths.current[id]?.from ?? straightLine
+      const to = gradientPaths.current[id]?.to ?? straightLine
+
+      return to.interpolate(from, interpolateProgress.current)
+    },
+    // RN Skia deals with deps differently. They are actually the required SkiaValues that the derived value listens to, not react values.
+    [interpolateProgress, gradientPaths]
+  )
+
+  const gapPath = useComputedValue(
+    () => {
+      const from = gapPaths.current[id]?.from ?? straightLine
+      const to = gapPaths.current[id]?.to ?? straightLine
+
+      return to.interpolate(from, interpolateProgress.current)
+    },
+    // RN Skia deals with deps differently. They are actually the required SkiaValues that the derived value listens to, not react values.
+    [interpolateProgress, gapPaths]
+  )
+
+  const bandPath = useComputedValue(
+    () => {
+      const from = bandPaths.current[id]?.from ?? straightLine
+      const to = bandPaths.current[id]?.to ?? straightLine
+
+      return to.interpolate(from, interpolateProgress.current)
+    },
+    // RN Skia deals with deps differently. They are actually the required SkiaValues that the derived value listens to, not react values.
+    [interpolateProgress, bandPaths]
+  )
+
+  const renderStroke = (colors: string[]) => (
+    <Path
+      // @ts-expect-error
+      path={path}
+      end={drawProgress ?? 1}
+      strokeWidth={lineThickness}
+      style="stroke"
+      strokeJoin="round"
+      strokeCap="round"
+    >
+      <LinearGradient
+        start={vec(0, 0)}
+        end={vec(width, 0)}
+        colors={colors}
+        positions={positions}
+      />
+    </Path>
+  )
+
+  return (
+    <>
+      {bandColor != null && (
+        <Path
+          // @ts-expect-error
+          path={bandPath}
+          color={bandColor}
+          opacity={drawProgress ?? 1}
+        />
+      )}
+
+      {enableDashedGaps && (
+        <Path
+          // @ts-expect-error
+          path={gapPath}
+          end={drawProgress ?? 1}
+          strokeWidth={lineThickness / 2}
+          style="stroke"
+          strokeCap="round"
+          color={color}
+        >
+          <DashPathEffect intervals={[lineThickness * 2, lineThickness * 2]} />
+        </Path>
+      )}
+
+      {baseline == null ? (
+        renderStroke(gradientColors)
+      ) : (
+        <>
+          <Group clip={positiveClip}>{renderStroke(positiveColors)}</Group>
+          <Group clip={negativeClip}>{renderStroke(negativeColors)}</Group>
+        </>
+      )}
+
+      {baseline == null && gradientFillColors != null && (
+        <Path
+          // @ts-expect-error
+          path={gradientPath}
+          opacity={drawProgress ?? 1}
+        >
+          <LinearGradient
+            start={vec(0, 0)}
+            end={vec(0, height)}
+            colors={gradientFillColors}
+          />
+        </Path>
+      )}
+
+      {baseline?.positiveGradientFillColors != null && (
+        <Group clip={positiveClip}>
+          <Path
+            // @ts-expect-error
+            path={gradientPath}
+            opacity={drawProgress ?? 1}
+          >
+            <LinearGradient
+              start={vec(0, 0)}
+              end={baselineVec}
+              colors={baseline.positiveGradientFillColors}
+            />
+          </Path>
+        </Group>
+      )}
+
+      {baseline?.negativeGradientFillColors != null && (
+        <Group clip={negativeClip}>
+          <Path
+            // @ts-expect-error
+            path={gradientPath}
+            opacity={drawProgress ?? 1}
+          >
+            <LinearGradient
+              start={baselineVec}
+              end={vec(0, height)}
+              colors={baseline.negativeGradientFillColors}
+            />
+          </Path>
+        </Group>
+      )}
+    </>
+  )
+}
+
+interface AnimatedSeriesSelectionDotProps
+  extends Omit<SelectionDotProps, 'circleY'> {
+  index: number
+  circleYs: SharedValue<number[]>
+  SelectionDot: React.ComponentType<SelectionDotProps>
+}
+
+export function AnimatedSeriesSelectionDot({
+  index,
+  circleYs,
+  SelectionDot,
+  ...props
+}: AnimatedSeriesSelectionDotProps): React.ReactElement {
+  const circleY = useDerivedValue(() => circleYs.value[index] ?? 0)
+
+  return <SelectionDot circleY={circleY} {...props} />
+}
@@ -0,0 +1,345 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native'
+import Reanimated, {
+  runOnJS,
+  useAnimatedReaction,
+  useDerivedValue,
+  useSharedValue,
+} from 'react-native-reanimated'
+import { GestureDetector } from 'react-native-gesture-handler'
+import {
+  Canvas,
+  Color,
+  Group,
+  Line,
+  LinearGradient,
+  Path,
+  runSpring,
+  SkiaMutableValue,
+  SkiaValue,
+  useComputedValue,
+  useValue,
+  vec,
+} from '@shopify/react-native-skia'
+
+import type { AnimatedStackedAreaGraphProps } from './StackedAreaGraphProps'
+import type { GraphPoint } from './LineGraphProps'
+import {
+  createStackedAreaPaths,
+  getStackedAreaRange,
+  getStackedSeries,
+} from './CreateStackedAreaPath'
+import {
+  getPointsInRange,
+  getXInRange,
+  GraphPathRange,
+} from './CreateGraphPath'
+import { getPathTransition, PathTransition } from './AnimatedSeries'
+import { usePanGesture } from './hooks/usePanGesture'
+import { getNearestIndex } from './utils/getNearestIndex'
+
+interface AnimatedStackedAreaProps {
+  id: string
+  paths: SkiaMutableValue<Record<string, PathTransition>>
+  fillPaths: SkiaMutableValue<Record<string, PathTransition>>
+  interpolateProgress: SkiaValue<number>
+  color: string
+  gradientFillColors?: Color[]
+  lineThickness: number
+  height: number
+}
+
+function AnimatedStackedArea({
+  id,
+  paths,
+  fillPaths,
+  interpolateProgress,
+  color,
+  gradientFillColors,
+  lineThickness,
+  height,
+}: AnimatedStackedAreaProps): React.ReactElement {
+  const path = useComputedValue(
+    () => {
+      const { from, to } = paths.current[id] ?? {}
+      if (to == null) return null
+      return from != null
+        ? to.interpolate(from, interpolateProgress.current)
+        : to
+    },
+    // RN Skia deals with deps differently. They are actually the required SkiaValues that the derived value listens to, not react values.
+    [interpolateProgress]
+  )
+  const fillPath = useComputedValue(
+    () => {
+      const { from, to } = fillPaths.current[id] ?? {}
+      if (to == null) return null
+      return from != null
+        ? to.interpolate(from, interpolateProgress.current)
+        : to
+    },
+    // RN Skia deals with deps differently. They are actually the required SkiaValues that the derived value listens to, not react values.
+    [interpolateProgress]
+  )
+
+  return (
+    <Group>
+      <Path
+        // @ts-expect-error
+        path={fillPath}
+        color={gradientFillColors == null ? color : undefined}
+      >
+        {gradientFillColors != null && (
+          <LinearGradient
+            start={vec(0, 0)}
+            end={vec(0, height)}
+            colors={gradientFillColors}
+          />
+        )}
+      </Path>
+      {lineThickness > 0 && (
+        <Path
+          // @ts-expect-error
+          path={path}
+          color={color}
+          strokeWidth={lineThickness}
+          style="stroke"
+          strokeJoin="round"
+          strokeCap="round"
+        />
+      )}
+    </Group>
+  )
+}
+
+export function AnimatedStackedAreaGraph({
+  series,
+  stacking = 'absolute',
+  range,
+  curve = 'linear',
+  lineThickness = 0,
+  enablePanGesture = false,
+  panGestureDelay = 300,
+  horizontalPadding = 0,
+  verticalPadding = 0,
+  selectionLineColor = '#999999',
+  onPointSelected,
+  onGestureStart,
+  onGestureEnd,
+  ...props
+}: AnimatedStackedAreaGraphProps): React.ReactElement {
+  const [width, setWidth] = useState(0)
+  const [height, setHeight] = useState(0)
+  const interpolateProgress = useValue(0)
+
+  const { gesture, isActive, x } = usePanGesture({
+    enabled: enablePanGesture,
+    holdDuration: panGestureDelay,
+  })
+  const selectedX = useSharedValue(0)
+  const pointXs = useSharedValue<number[]>([])
+  const pointSelectedIndex = useRef<number>()
+
+  const paths = useValue<Record<string, PathTransition>>({})
+  const fillPaths = useValue<Record<string, PathTransition>>({})
+
+  const onLayout = useCallback(
+    ({ nativeEvent: { layout } }: LayoutChangeEvent) => {
+      setWidth(Math.round(layout.width))
+      setHeight(Math.round(layout.height))
+    },
+    []
+  )
+
+  const stackedSeries = useMemo(
+    () => getStackedSeries(series, stacking),
+    [series, stacking]
+  )
+
+  const pathRange: GraphPathRange = useMemo(
+    () => getStackedAreaRange(stackedSeries, stacking, range),
+    [range, stackedSeries, stacking]
+  )
+
+  const seriesPointsInRange = useMemo(
+    () => series.map((s) => getPointsInRange(s.points, pathRange)),
+    [pathRange, series]
+  )
+
+  useEffect(() => {
+    if (height < 1 || width < 1) {
+      // view is not yet measured!
+      return
+    }
+
+    const config = {
+      stackedSeries,
+      range: pathRange,
+      horizontalPadding,
+      verticalPadding,
+      canvasHeight: height,
+      canvasWidth: width,
+      curve,
+    }
+    const nextPaths = createStackedAreaPaths(config)
+    // new layers grow out of the bottom of the graph
+    const flattenedPaths = createStackedAreaPaths({
+      ...config,
+      flattened: true,
+    })
+
+    const nextLinePaths: Record<string, PathTransition> = {}
+    const nextFillPaths: Record<string, PathTransition> = {}
+    stackedSeries.forEach((s, i) => {
+      const { path, gradientPath } = nextPaths[i]!
+      const flattened = flattenedPaths[i]!
+
+      nextLinePaths[s.id] = getPathTransition(
+        paths.current[s.id],
+        path,
+        interpolateProgress.current,
+        flattened.path
+      )
+      nextFillPaths[s.id] = getPathTransition(
+        fillPaths.current[s.id],
+        gradientPath,
+        interpolateProgress.current,
+        flattened.gradientPath
+      )
+    })
+
+    paths.current = nextLinePaths
+    fillPaths.current = nextFillPaths
+
+    const drawingWidth = width - 2 * horizontalPadding
+    pointXs.value = (seriesPointsInRange[0] ?? []).map(
+      (point) =>
+        getXInRange(drawingWidth, point.date, pathRange.x) + horizontalPadding
+    )
+
+    runSpring(
+      interpolateProgress,
+      { from: 0, to: 1 },
+      {
+        mass: 1,
+        stiffness: 500,
+        damping: 400,
+        velocity: 0,
+      }
+    )
+  }, [
+    curve,
+    fillPaths,
+    height,
+    horizontalPadding,
+    interpolateProgress,
+    pathRange,
+    paths,
+    pointXs,
+    seriesPointsInRange,
+    stackedSeries,
+    verticalPadding,
+    width,
+  ])
+
+  const selectionLineStart = useDerivedValue(() => vec(selectedX.value, 0))
+  const selectionLineEnd = useDerivedValue(() => vec(selectedX.value, height))
+  const selectionLineOpacity = useDerivedValue(() => (isActive.value ? 1 : 0))
+
+  const setSelectedIndex = useCallback(
+    (index: number) => {
+      if (pointSelectedIndex.current === index) return
+      pointSelectedIndex.current = index
+
+      const date = seriesPointsInRange[0]?.[index]?.date
+      if (date == null) return
+
+      const layerPoints: Record<string, GraphPoint> = {}
+      series.forEach((s, i) => {
+        const point = seriesPointsInRange[i]?.[index]
+        if (point != null) layerPoints[s.id] = point
+      })
+      onPointSelected?.(date, layerPoints)
+    },
+    [onPointSelected, series, seriesPointsInRange]
+  )
+
+  const setIsActive = useCallback(
+    (active: boolean) => {
+      if (active) {
+        onGestureStart?.()
+      } else {
+        onGestureEnd?.()
+        pointSelectedIndex.current = undefined
+      }
+    },
+    [onGestureEnd, onGestureStart]
+  )
+
+  useAnimatedReaction(
+    () => x.value,
+    (fingerX) => {
+      if (!isActive.value) return
+
+      const index = getNearestIndex(pointXs.value, fingerX)
+      const pointX = pointXs.value[index]
+      if (pointX == null) return
+
+      selectedX.value = pointX
+      runOnJS(setSelectedIndex)(index)
+    },
+    [isActive, pointXs, selectedX, setSelectedIndex, x]
+  )
+
+  useAnimatedReaction(
+    () => isActive.value,
+    (active) => {
+      runOnJS(setIsActive)(active)
+    },
+    [isActive, setIsActive]
+  )
+
+  // the fill of each layer reaches down to the bottom, so the top layer is drawn first
+  const layers = useMemo(() => [...series].reverse(), [series])
+
+  return (
+    <View {...props}>
+      <GestureDetector gesture={gesture}>
+        <Reanimated.View style={styles.container} onLayout={onLayout}>
+          <Canvas style={styles.svg}>
+            {layers.map((s) => (
+              <AnimatedStackedArea
+                key={s.id}
+                id={s.id}
+                paths={paths}
+                fillPaths={fillPaths}
+                interpolateProgress={interpolateProgress}
+                color={s.color}
+                gradientFillColors={s.gradientFillColors}
+                lineThickness={s.lineThickness ?? lineThickness}
+                height={height}
+              />
+            ))}
+
+            <Line
+              p1={selectionLineStart}
+              p2={selectionLineEnd}
+              color={selectionLineColor}
+              strokeWidth={1}
+              opacity={selectionLineOpacity}
+            />
+          </Canvas>
+        </Reanimated.View>
+      </GestureDetector>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  svg: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+})
@@ -0,0 +1,11 @@
+import React from 'react'
+import { AnimatedBarGraph } from './AnimatedBarGraph'
+import type { BarGraphProps } from './BarGraphProps'
+import { StaticBarGraph } from './StaticBarGraph'
+
+function BarGraphImpl(props: BarGraphProps): React.ReactElement {
+  if (props.animated) return <AnimatedBarGraph {...props} />
+  else return <StaticBarGraph {...props} />
+}
+
+export const BarGraph = React.memo(BarGraphImpl)
@@ -0,0 +1,71 @@
+import type { ViewProps } from 'react-native'
+import type { GraphPoint, GraphRange } from './LineGraphProps'
+
+interface BaseBarGraphProps extends ViewProps {
+  /**
+   * All points to be drawn as bars in the graph. Coordinate system will adjust to scale automatically.
+   */
+  points: GraphPoint[]
+  /**
+   * Range of the graph's x and y-axis. The range must be greater
+   * than the range given by the points.
+   *
+   * If no y-range is given, it always includes `0`, so bars grow from the zero line.
+   */
+  range?: GraphRange
+  /**
+   * Color of the bars
+   */
+  color: string
+  /**
+   * The width of a bar, relative to the space available per bar (0 - 1)
+   *
+   * @default 0.8
+   */
+  barWidthRatio?: number
+}
+
+export type StaticBarGraphProps = BaseBarGraphProps & {
+  /* any static-only bar graph props? */
+}
+export type AnimatedBarGraphProps = BaseBarGraphProps & {
+  /**
+   * Whether to enable Graph scrubbing/pan gesture.
+   */
+  enablePanGesture?: boolean
+  /**
+   * Delay after which the pan gesture starts
+   */
+  panGestureDelay?: number
+  /**
+   * Horizontal padding applied to graph, so the bars don't get cut off horizontally
+   */
+  horizontalPadding?: number
+  /**
+   * Vertical padding applied to graph, so the bars don't get cut off vertically
+   */
+  verticalPadding?: number
+  /**
+   * Opacity of all bars except for the selected one while the user is panning the graph
+   *
+   * @default 0.4
+   */
+  unselectedBarOpacity?: number
+
+  /**
+   * Called for each point while the user is scrubbing/panning through the graph
+   */
+  onPointSelected?: (point: GraphPoint) => void
+  /**
+   * Called once the user starts scrubbing/panning through the graph
+   */
+  onGestureStart?: () => void
+  /**
+   * Called once the user stopped scrubbing/panning through the graph
+   */
+  onGestureEnd?: () => void
+}
+
+export type BarGraphProps =
+  | ({ animated: true } & AnimatedBarGraphProps)
+  | ({ animated: false } & StaticBarGraphProps)
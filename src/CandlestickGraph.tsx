@@ -0,0 +1,13 @@
+import React from 'react'
+import { AnimatedCandlestickGraph } from './AnimatedCandlestickGraph'
+import type { CandlestickGraphProps } from './CandlestickGraphProps'
+import { StaticCandlestickGraph } from './StaticCandlestickGraph'
+
+function CandlestickGraphImpl(
+  props: CandlestickGraphProps
+): React.ReactElement {
+  if (props.animated) return <AnimatedCandlestickGraph {...props} />
+  else return <StaticCandlestickGraph {...props} />
+}
+
+export const CandlestickGraph = React.memo(CandlestickGraphImpl)
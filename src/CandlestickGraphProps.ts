@@ -0,0 +1,91 @@
+import type { ViewProps } from 'react-native'
+import type { GraphRange } from './LineGraphProps'
+
+export interface CandlePoint {
+  date: Date
+  open: number
+  high: number
+  low: number
+  close: number
+}
+
+interface BaseCandlestickGraphProps extends ViewProps {
+  /**
+   * All candles to be drawn in the graph. Coordinate system will adjust to scale automatically.
+   */
+  points: CandlePoint[]
+  /**
+   * Range of the graph's x and y-axis. The range must be greater
+   * than the range given by the points.
+   */
+  range?: GraphRange
+  /**
+   * Color of candles that closed higher than (or equal to) they opened
+   *
+   * @default '#26a69a'
+   */
+  upColor?: string
+  /**
+   * Color of candles that closed lower than they opened
+   *
+   * @default '#ef5350'
+   */
+  downColor?: string
+  /**
+   * The width of a candle's body, relative to the space available per candle (0 - 1)
+   *
+   * @default 0.6
+   */
+  candleWidthRatio?: number
+  /**
+   * The width of a candle's wick (high/low line)
+   *
+   * @default 1
+   */
+  wickThickness?: number
+}
+
+export type StaticCandlestickGraphProps = BaseCandlestickGraphProps & {
+  /* any static-only candlestick graph props? */
+}
+export type AnimatedCandlestickGraphProps = BaseCandlestickGraphProps & {
+  /**
+   * Whether to enable Graph scrubbing/pan gesture.
+   */
+  enablePanGesture?: boolean
+  /**
+   * Delay after which the pan gesture starts
+   */
+  panGestureDelay?: number
+  /**
+   * Horizontal padding applied to graph, so the candles don't get cut off horizontally
+   */
+  horizontalPadding?: number
+  /**
+   * Vertical padding applied to graph, so the candles don't get cut off vertically
+   */
+  verticalPadding?: number
+  /**
+   * Color of the vertical line that highlights the selected candle
+   *
+   * @default '#999999'
+   */
+  selectionLineColor?: string
+
+  /**
+   * Called for each candle while the user is scrubbing/panning through the graph
+   */
+  onCandleSelected?: (candle: CandlePoint) => void
+  /**
+   * Called once the user starts scrubbing/panning through the graph
+   */
+  onGestureStart?: () => void
+  /**
+   * Called once the user stopped scrubbing/panning through the graph
+   */
+  onGestureEnd?: () => void
+}
+
+export type CandlestickGraphProps =
+  | ({ animated: true } & AnimatedCandlestickGraphProps)
+  | ({ animated: false } & StaticCandlestickGraphProps)
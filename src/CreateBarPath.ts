@@ -0,0 +1,161 @@
+import { mix, SkPath, Skia } from '@shopify/react-native-skia'
+import {
+  getGraphPathRange,
+  getXInRange,
+  getXValue,
+  getYInRange,
+  GraphPathRange,
+} from './CreateGraphPath'
+import type { GraphPoint, GraphRange } from './LineGraphProps'
+
+/**
+ * A bar, converted to canvas coordinates.
+ */
+export interface BarShape {
+  x: number
+  width: number
+  top: number
+  bottom: number
+  baseline: number
+}
+
+type BarPathConfig = {
+  /**
+   * Graph Points to use for the Path. Will be normalized and centered.
+   */
+  pointsInRange: GraphPoint[]
+  /**
+   * Optional Padding (left, right) for the Graph, in addition to the half bar that is always applied.
+   */
+  horizontalPadding: number
+  /**
+   * Optional Padding (top, bottom) for the Graph.
+   */
+  verticalPadding: number
+  /**
+   * Height of the Canvas (Measured with onLayout)
+   */
+  canvasHeight: number
+  /**
+   * Width of the Canvas (Measured with onLayout)
+   */
+  canvasWidth: number
+  /**
+   * Range of the graph's x and y-axis
+   */
+  range: GraphPathRange
+  /**
+   * The width of a bar, relative to the space available per bar (0 - 1)
+   */
+  barWidthRatio: number
+}
+
+/**
+ * Same as `getGraphPathRange`, but the y-range always includes `0` (unless
+ * specified otherwise in `range`), so bars grow from the zero line.
+ */
+export function getBarGraphRange(
+  points: GraphPoint[],
+  range?: GraphRange
+): GraphPathRange {
+  const pathRange = getGraphPathRange(points, range)
+
+  return {
+    x: pathRange.x,
+    y: {
+      min: range?.y?.min ?? Math.min(pathRange.y.min, 0),
+      max: range?.y?.max ?? Math.max(pathRange.y.max, 0),
+    },
+  }
+}
+
+export function getBarShapes({
+  pointsInRange: points,
+  horizontalPadding,
+  verticalPadding,
+  canvasHeight: height,
+  canvasWidth: width,
+  range,
+  barWidthRatio,
+}: BarPathConfig): BarShape[] {
+  if (points.length < 1) return []
+
+  const barWidth = Math.max(
+    ((width - 2 * horizontalPadding) / points.length) * barWidthRatio,
+    1
+  )
+  // Half a bar is always added, so the first and last bar don't get cut off
+  const paddingX = horizontalPadding + barWidth / 2
+
+  // Canvas width substracted by the horizontal padding => Actual drawing width
+  const drawingWidth = width - 2 * paddingX
+  // Canvas height substracted by the vertical padding => Actual drawing height
+  const drawingHeight = height - 2 * verticalPadding
+
+  const getY = (value: number) =>
+    drawingHeight - getYInRange(drawingHeight, value, range.y) + verticalPadding
+  // a single bar (or all bars at the same date) has no x-range to spread over, so it is centered
+  const getX = (date: Date) =>
+    getXValue(range.x.max) > getXValue(range.x.min)
+      ? getXInRange(drawingWidth, date, range.x) + paddingX
+      : width / 2
+
+  // Bars grow from the zero line, or from the closest edge if zero is out of range
+  const baseline = getY(Math.min(Math.max(0, range.y.min), range.y.max))
+
+  return points.map((point) => {
+    // points without a value are drawn as empty bars, so indices still match the points
+    const y = point.value != null ? getY(point.value) : baseline
+
+    return {
+      x: getX(point.date),
+      width: barWidth,
+      top: Math.min(y, baseline),
+      bottom: Math.max(y, baseline),
+      baseline: baseline,
+    }
+  })
+}
+
+/**
+ * Interpolates between two lists of bar shapes. Bars that don't exist in
+ * `from` grow out of their baseline.
+ */
+export function mixBarShapes(
+  from: BarShape[],
+  to: BarShape[],
+  progress: number
+): BarShape[] {
+  return to.map((next, i) => {
+    const previous = from[i] ?? {
+      ...next,
+      top: next.baseline,
+      bottom: next.baseline,
+    }
+
+    return {
+      x: mix(progress, previous.x, next.x),
+      width: mix(progress, previous.width, next.width),
+      top: mix(progress, previous.top, next.top),
+      bottom: mix(progress, previous.bottom, next.bottom),
+      baseline: next.baseline,
+    }
+  })
+}
+
+export function createBarPath(shapes: BarShape[]): SkPath {
+  const path = Skia.Path.Make()
+
+  for (const shape of shapes) {
+    path.addRect(
+      Skia.XYWHRect(
+        shape.x - shape.width / 2,
+        shape.top,
+        shape.width,
+        shape.bottom - shape.top
+      )
+    )
+  }
+
+  return path
+}
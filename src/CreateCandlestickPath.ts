@@ -0,0 +1,173 @@
+import { mix, SkPath, Skia } from '@shopify/react-native-skia'
+import type { CandlePoint } from './CandlestickGraphProps'
+import {
+  getGraphPathRange,
+  getXInRange,
+  getXValue,
+  getYInRange,
+  GraphPathRange,
+} from './CreateGraphPath'
+import type { GraphRange } from './LineGraphProps'
+
+/**
+ * A candle, converted to canvas coordinates.
+ */
+export interface CandleShape {
+  x: number
+  width: number
+  open: number
+  close: number
+  high: number
+  low: number
+  isUp: boolean
+}
+
+type CandlestickPathConfig = {
+  /**
+   * Candles to use for the Path. Will be normalized and centered.
+   */
+  candlesInRange: CandlePoint[]
+  /**
+   * Optional Padding (left, right) for the Graph, in addition to the half candle that is always applied.
+   */
+  horizontalPadding: number
+  /**
+   * Optional Padding (top, bottom) for the Graph.
+   */
+  verticalPadding: number
+  /**
+   * Height of the Canvas (Measured with onLayout)
+   */
+  canvasHeight: number
+  /**
+   * Width of the Canvas (Measured with onLayout)
+   */
+  canvasWidth: number
+  /**
+   * Range of the graph's x and y-axis
+   */
+  range: GraphPathRange
+  /**
+   * The width of a candle's body, relative to the space available per candle (0 - 1)
+   */
+  candleWidthRatio: number
+}
+
+export function getCandlestickRange(
+  candles: CandlePoint[],
+  range?: GraphRange
+): GraphPathRange {
+  return getGraphPathRange(
+    candles.flatMap((candle) => [
+      { date: candle.date, value: candle.low },
+      { date: candle.date, value: candle.high },
+    ]),
+    range
+  )
+}
+
+export function getCandleShapes({
+  candlesInRange: candles,
+  horizontalPadding,
+  verticalPadding,
+  canvasHeight: height,
+  canvasWidth: width,
+  range,
+  candleWidthRatio,
+}: CandlestickPathConfig): CandleShape[] {
+  if (candles.length < 1) return []
+
+  const candleWidth = Math.max(
+    ((width - 2 * horizontalPadding) / candles.length) * candleWidthRatio,
+    1
+  )
+  // Half a candle is always added, so the first and last candle don't get cut off
+  const paddingX = horizontalPadding + candleWidth / 2
+
+  // Canvas width substracted by the horizontal padding => Actual drawing width
+  const drawingWidth = width - 2 * paddingX
+  // Canvas height substracted by the vertical padding => Actual drawing height
+  const drawingHeight = height - 2 * verticalPadding
+
+  const getY = (value: number) =>
+    drawingHeight - getYInRange(drawingHeight, value, range.y) + verticalPadding
+  // a single candle (or all candles at the same date) has no x-range to spread over, so it is centered
+  const getX = (date: Date) =>
+    getXValue(range.x.max) > getXValue(range.x.min)
+      ? getXInRange(drawingWidth, date, range.x) + paddingX
+      : width / 2
+
+  return candles.map((candle) => ({
+    x: getX(candle.date),
+    width: candleWidth,
+    open: getY(candle.open),
+    close: getY(candle.close),
+    high: getY(candle.high),
+    low: getY(candle.low),
+    isUp: candle.close >= candle.open,
+  }))
+}
+
+/**
+ * Interpolates between two lists of candle shapes. Candles that don't exist in
+ * `from` grow out of the center of their body.
+ */
+export function mixCandleShapes(
+  from: CandleShape[],
+  to: CandleShape[],
+  progress: number
+): CandleShape[] {
+  return to.map((next, i) => {
+    const center = (next.open + next.close) / 2
+    const previous = from[i] ?? {
+      ...next,
+      open: center,
+      close: center,
+      high: center,
+      low: center,
+    }
+
+    return {
+      x: mix(progress, previous.x, next.x),
+      width: mix(progress, previous.width, next.width),
+      open: mix(progress, previous.open, next.open),
+      close: mix(progress, previous.close, next.close),
+      high: mix(progress, previous.high, next.high),
+      low: mix(progress, previous.low, next.low),
+      isUp: next.isUp,
+    }
+  })
+}
+
+/**
+ * Creates a single Path containing the wicks and bodies of all
+ * rising (`isUp = true`) or falling (`isUp = false`) candles.
+ */
+export function createCandlestickPath(
+  shapes: CandleShape[],
+  isUp: boolean,
+  wickThickness: number
+): SkPath {
+  const path = Skia.Path.Make()
+
+  for (const shape of shapes) {
+    if (shape.isUp !== isUp) continue
+
+    path.addRect(
+      Skia.XYWHRect(
+        shape.x - wickThickness / 2,
+        shape.high,
+        wickThickness,
+        shape.low - shape.high
+      )
+    )
+
+    const bodyTop = Math.min(shape.open, shape.close)
+    const bodyHeight = Math.max(Math.abs(shape.open - shape.close), 1)
+    path.addRect(
+      Skia.XYWHRect(shape.x - shape.width / 2, bodyTop, shape.width, bodyHeight)
+    )
+  }
+
+  return path
+}
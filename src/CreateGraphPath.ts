@@ -1,11 +1,16 @@
 import { SkPath, Skia, SkPoint } from '@shopify/react-native-skia'
-import type { GraphPoint, GraphRange } from './LineGraphProps'
-
-const PIXEL_RATIO = 2
-
-export interface GraphXRange {
-  min: Date
-  max: Date
+import type { GraphPoint, GraphRange, GraphXField } from './LineGraphProps'
+import { addCurve, addLine, getReversedCurve, GraphCurve } from './GraphCurves'
+import { downsample, GraphDownsampling } from './GraphDownsampling'
+
+/**
+ * The type of the x-values of a graph: dates, or plain numbers (e.g. a distance or an altitude)
+ */
+export type GraphX = number | Date
+
+export interface GraphXRange<X extends GraphX = Date> {
+  min: X
+  max: X
 }
 
 export interface GraphYRange {
@@ -13,16 +18,90 @@ export interface GraphYRange {
   max: number
 }
 
+/**
+ * How the points are positioned along the x-axis.
+ *
+ * * `time`: By date, so the distance between two points is proportional to the time between them
+ * * `index`: Evenly spaced by index, which compresses periods without data (e.g. weekends and holidays of stock prices)
+ */
+export type GraphXMode = 'time' | 'index'
+
+export interface GraphPathXRange extends GraphXRange<GraphX> {
+  /**
+   * The sorted, unique x-values (see `getXValue`) of all points if the x-axis
+   * is ordinal (`xMode` is `index`). x-values are then positioned by their
+   * index in this list instead of by their value.
+   */
+  ordinalValues?: number[]
+}
+
+/**
+ * How values are mapped onto the y-axis.
+ *
+ * * `linear`: Proportional to the value
+ * * `log`: Proportional to the logarithm of the value, so equal ratios (e.g. a doubling of the price) take up equal space. Non-positive values are drawn at the bottom of the graph.
+ * * `{ forward, inverse }`: A custom scale. `forward` maps a value onto a linear scale, `inverse` maps it back.
+ */
+export type GraphYScale =
+  | 'linear'
+  | 'log'
+  | {
+      forward: (value: number) => number
+      inverse: (value: number) => number
+    }
+
+export interface GraphPathYRange extends GraphYRange {
+  /**
+   * The scale of the y-axis, linear if omitted
+   */
+  scale?: GraphYScale
+}
+
+/**
+ * How gaps in the data (`null` values, or points further apart than the `gapThreshold`) are drawn.
+ *
+ * * `break`: The path is interrupted
+ * * `dashed`: The path is interrupted, and the gap is bridged with a dashed line
+ * * `zero`: The path drops down to zero for the duration of the gap
+ */
+export type GraphGapStyle = 'break' | 'dashed' | 'zero'
+
 export interface GraphPathRange {
-  x: GraphXRange
-  y: GraphYRange
+  x: GraphPathXRange
+  y: GraphPathYRange
 }
 
+/**
+ * Returns the numeric value of an x-value, which is the timestamp of a date.
+ */
+export const getXValue = (x: GraphX): number =>
+  typeof x === 'number' ? x : x.getTime()
+
+/**
+ * Returns the x-value of a point or annotation: its `date` on a time axis,
+ * or its `x` on a numeric axis.
+ */
+export const getX = (item: GraphXField<GraphX>): GraphX =>
+  item.date !== undefined ? item.date : item.x
+
+/**
+ * Returns the numeric x-value of a point or annotation, see `getXValue`.
+ */
+export const getPointXValue = (item: GraphXField<GraphX>): number =>
+  getXValue(getX(item))
+
+/**
+ * Creates an x-value of the same type as `reference` (a date or a number)
+ * from the given numeric value.
+ */
+export const createX = <X extends GraphX>(value: number, reference: X): X =>
+  (typeof reference === 'number' ? value : new Date(value)) as X
+
 type GraphPathConfig = {
   /**
    * Graph Points to use for the Path. Will be normalized and centered.
    */
-  pointsInRange: GraphPoint[]
+  pointsInRange: GraphPoint<GraphX>[]
   /**
    * Optional Padding (left, right) for the Graph to correctly round the Path.
    */
@@ -43,6 +122,36 @@ type GraphPathConfig = {
    * Range of the graph's x and y-axis
    */
   range: GraphPathRange
+  /**
+   * The interpolation used to connect the points.
+   *
+   * @default 'basis'
+   */
+  curve?: GraphCurve
+  /**
+   * Maximum distance (in milliseconds, or in units of `x` on a numeric x-axis)
+   * between two points before the path is interrupted. Points with a `null` value always interrupt the path.
+   */
+  gapThreshold?: number
+  /**
+   * How gaps in the data are drawn.
+   *
+   * @default 'break'
+   */
+  gapStyle?: GraphGapStyle
+  /**
+   * The algorithm used to reduce the amount of points before the path is created.
+   *
+   * @default 'lttb'
+   */
+  downsampling?: GraphDownsampling
+  /**
+   * The value the gradient fill is closed to, e.g. the baseline of a graph
+   * that is colored differently above and below a value.
+   *
+   * @default the bottom of the graph
+   */
+  fillBaseline?: number
 }
 
 type GraphPathConfigWithGradient = GraphPathConfig & {
@@ -52,205 +161,757 @@ type GraphPathConfigWithoutGradient = GraphPathConfig & {
   shouldFillGradient: false
 }
 
+/**
+ * Computes the range of the given points, or the union range of multiple
+ * series of points. Values given in `range` take precedence.
+ */
 export function getGraphPathRange(
-  points: GraphPoint[],
-  range?: GraphRange
+  points: GraphPoint<GraphX>[] | GraphPoint<GraphX>[][],
+  range?: GraphRange<GraphX>,
+  xMode: GraphXMode = 'time',
+  yScale: GraphYScale = 'linear'
 ): GraphPathRange {
-  const minValueX = range?.x?.min ?? points[0]?.date ?? new Date()
+  const allSeries = isSeriesArray(points) ? points : [points]
+
+  const minValueX =
+    range?.x?.min ??
+    allSeries.reduce<GraphX | undefined>((prev, curr) => {
+      const firstPoint = curr[0]
+      if (firstPoint == null) return prev
+      const first = getX(firstPoint)
+      return prev == null || getXValue(first) < getXValue(prev) ? first : prev
+    }, undefined) ??
+    new Date()
   const maxValueX =
-    range?.x?.max ?? points[points.length - 1]?.date ?? new Date()
+    range?.x?.max ??
+    allSeries.reduce<GraphX | undefined>((prev, curr) => {
+      const lastPoint = curr[curr.length - 1]
+      if (lastPoint == null) return prev
+      const last = getX(lastPoint)
+      return prev == null || getXValue(last) > getXValue(prev) ? last : prev
+    }, undefined) ??
+    new Date()
+
+  if (__DEV__ && yScale === 'log') validateLogValues(allSeries, range)
+
+  // a logarithmic scale can't show non-positive values, so they don't count towards its range
+  const getRangeValue = (
+    value: number | null | undefined
+  ): number | undefined =>
+    value != null && (yScale !== 'log' || value > 0) ? value : undefined
 
   const minValueY =
-    range?.y?.min ??
-    points.reduce(
-      (prev, curr) => (curr.value < prev ? curr.value : prev),
+    getRangeValue(range?.y?.min) ??
+    allSeries.reduce(
+      (prevSeries, currSeries) =>
+        currSeries.reduce(
+          (prev, curr) =>
+            Math.min(
+              prev,
+              getRangeValue(curr.value) ?? prev,
+              getRangeValue(curr.low) ?? prev
+            ),
+          prevSeries
+        ),
       Number.MAX_SAFE_INTEGER
     )
   const maxValueY =
-    range?.y?.max ??
-    points.reduce(
-      (prev, curr) => (curr.value > prev ? curr.value : prev),
+    getRangeValue(range?.y?.max) ??
+    allSeries.reduce(
+      (prevSeries, currSeries) =>
+        currSeries.reduce(
+          (prev, curr) =>
+            Math.max(
+              prev,
+              getRangeValue(curr.value) ?? prev,
+              getRangeValue(curr.high) ?? prev
+            ),
+          prevSeries
+        ),
       Number.MIN_SAFE_INTEGER
     )
+  // without a single positive value there is nothing to fit, so show the first decade
+  const hasLogRange = yScale !== 'log' || minValueY <= maxValueY
 
   return {
-    x: { min: minValueX, max: maxValueX },
-    y: { min: minValueY, max: maxValueY },
+    x: {
+      min: minValueX,
+      max: maxValueX,
+      ordinalValues:
+        xMode === 'index' ? getOrdinalValues(allSeries) : undefined,
+    },
+    y: {
+      min: hasLogRange ? minValueY : 1,
+      max: hasLogRange ? maxValueY : 10,
+      scale: yScale !== 'linear' ? yScale : undefined,
+    },
+  }
+}
+
+/**
+ * Warns about the first value a logarithmic scale can't show, since it is
+ * left out of the range and drawn at the bottom of the graph instead.
+ */
+function validateLogValues(
+  allSeries: GraphPoint<GraphX>[][],
+  range: GraphRange<GraphX> | undefined
+): void {
+  const rangeValue = [range?.y?.min, range?.y?.max].find(
+    (value) => value != null && value <= 0
+  )
+  if (rangeValue != null) {
+    console.warn(
+      `react-native-graph: A logarithmic yScale requires \`range.y\` to be positive, but it contains ${rangeValue}! It is ignored.`
+    )
   }
+
+  for (const points of allSeries) {
+    for (const point of points) {
+      const value = [point.value, point.low, point.high].find(
+        (v) => v != null && v <= 0
+      )
+      if (value != null) {
+        console.warn(
+          `react-native-graph: A logarithmic yScale requires all values (including \`low\` and \`high\`) to be positive, but the point at ${String(
+            getX(point)
+          )} has the value ${value}! It is drawn at the bottom of the graph.`
+        )
+        return
+      }
+    }
+  }
+}
+
+/**
+ * Returns the sorted, unique x-values of all points of all series.
+ */
+function getOrdinalValues(allSeries: GraphPoint<GraphX>[][]): number[] {
+  const values = allSeries
+    .flatMap((points) => points.map(getPointXValue))
+    .sort((a, b) => a - b)
+  return values.filter((value, i) => i === 0 || value !== values[i - 1])
+}
+
+/**
+ * Returns the (fractional) index of the given x-value in the sorted
+ * `ordinalValues`, interpolated between and extrapolated beyond the values.
+ */
+export function getOrdinalIndex(
+  ordinalValues: number[],
+  value: number
+): number {
+  if (ordinalValues.length < 2) return 0
+
+  let low = 1
+  let high = ordinalValues.length - 1
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2)
+    if (ordinalValues[middle]! < value) low = middle + 1
+    else high = middle
+  }
+
+  const previous = ordinalValues[low - 1]!
+  const next = ordinalValues[low]!
+  return low - 1 + (value - previous) / (next - previous)
+}
+
+/**
+ * The inverse of `getOrdinalIndex`
+ */
+export function getOrdinalValue(
+  ordinalValues: number[],
+  index: number
+): number {
+  if (ordinalValues.length < 2) return ordinalValues[0] ?? 0
+
+  const i = Math.min(Math.max(Math.floor(index), 0), ordinalValues.length - 2)
+  const previous = ordinalValues[i]!
+  const next = ordinalValues[i + 1]!
+  return previous + (index - i) * (next - previous)
+}
+
+function isSeriesArray(
+  points: GraphPoint<GraphX>[] | GraphPoint<GraphX>[][]
+): points is GraphPoint<GraphX>[][] {
+  return Array.isArray(points[0])
 }
 
 export const getXPositionInRange = (
-  date: Date,
-  xRange: GraphXRange
+  x: GraphX,
+  xRange: GraphPathXRange
 ): number => {
-  const diff = xRange.max.getTime() - xRange.min.getTime()
-  const x = date.getTime()
+  const min = getXValue(xRange.min)
+  const max = getXValue(xRange.max)
+
+  const { ordinalValues } = xRange
+  if (ordinalValues != null) {
+    const minIndex = getOrdinalIndex(ordinalValues, min)
+    const maxIndex = getOrdinalIndex(ordinalValues, max)
+    return (
+      (getOrdinalIndex(ordinalValues, getXValue(x)) - minIndex) /
+      (maxIndex - minIndex)
+    )
+  }
 
-  return (x - xRange.min.getTime()) / diff
+  return (getXValue(x) - min) / (max - min)
 }
 
 export const getXInRange = (
   width: number,
-  date: Date,
-  xRange: GraphXRange
+  x: GraphX,
+  xRange: GraphPathXRange
 ): number => {
-  return Math.floor(width * getXPositionInRange(date, xRange))
+  return Math.floor(width * getXPositionInRange(x, xRange))
 }
 
-export const getYPositionInRange = (
+/**
+ * The inverse of `getXInRange`, returns the numeric x-value (see `getXValue`)
+ * at the given x-coordinate.
+ */
+export const getXValueInRange = (
+  width: number,
+  x: number,
+  xRange: GraphPathXRange
+): number => {
+  const position = x / width
+  const min = getXValue(xRange.min)
+  const max = getXValue(xRange.max)
+
+  const { ordinalValues } = xRange
+  if (ordinalValues != null) {
+    const minIndex = getOrdinalIndex(ordinalValues, min)
+    const maxIndex = getOrdinalIndex(ordinalValues, max)
+    return getOrdinalValue(
+      ordinalValues,
+      minIndex + position * (maxIndex - minIndex)
+    )
+  }
+
+  return min + position * (max - min)
+}
+
+/**
+ * Maps a value onto the linear scale the positions are computed on.
+ */
+export const getScaledValue = (
   value: number,
-  yRange: GraphYRange
+  scale: GraphYScale = 'linear'
 ): number => {
-  const diff = yRange.max - yRange.min
-  const y = value
+  if (scale === 'linear') return value
+  if (scale === 'log') return Math.log10(value)
+  return scale.forward(value)
+}
 
-  return (y - yRange.min) / diff
+/**
+ * The inverse of `getScaledValue`
+ */
+export const getUnscaledValue = (
+  scaledValue: number,
+  scale: GraphYScale = 'linear'
+): number => {
+  if (scale === 'linear') return scaledValue
+  if (scale === 'log') return 10 ** scaledValue
+  return scale.inverse(scaledValue)
+}
+
+export const getYPositionInRange = (
+  value: number,
+  yRange: GraphPathYRange
+): number => {
+  const min = getScaledValue(yRange.min, yRange.scale)
+  const max = getScaledValue(yRange.max, yRange.scale)
+  // non-positive values have no logarithm, they are drawn at the bottom instead
+  const scaledValue =
+    yRange.scale === 'log' && value <= 0
+      ? min
+      : getScaledValue(value, yRange.scale)
+
+  return (scaledValue - min) / (max - min)
 }
 
 export const getYInRange = (
   height: number,
   value: number,
-  yRange: GraphYRange
+  yRange: GraphPathYRange
 ): number => {
   return Math.floor(height * getYPositionInRange(value, yRange))
 }
 
-export const getPointsInRange = (
-  allPoints: GraphPoint[],
+/**
+ * Returns the y coordinate of the given value on the canvas.
+ */
+export const getValueY = (
+  value: number,
+  yRange: GraphPathYRange,
+  canvasHeight: number,
+  verticalPadding: number
+): number => {
+  // Canvas height substracted by the vertical padding => Actual drawing height
+  const drawingHeight = canvasHeight - 2 * verticalPadding
+
+  return (
+    drawingHeight - getYInRange(drawingHeight, value, yRange) + verticalPadding
+  )
+}
+
+/**
+ * Returns the index of the first point whose x-value is not before (or, if
+ * `inclusive` is false, after) the given value. The points have to be sorted by x.
+ */
+function getFirstIndexAfter<T extends GraphXField<GraphX>>(
+  points: T[],
+  value: number,
+  inclusive: boolean
+): number {
+  let low = 0
+  let high = points.length
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2)
+    const middleValue = getPointXValue(points[middle]!)
+    if (middleValue < value || (!inclusive && middleValue === value)) {
+      low = middle + 1
+    } else {
+      high = middle
+    }
+  }
+  return low
+}
+
+/**
+ * Returns the index of the point whose x-value is closest to the given value,
+ * or -1 if there are no points. The points have to be sorted by x.
+ */
+export function getNearestPointIndex<T extends GraphXField<GraphX>>(
+  points: T[],
+  value: number
+): number {
+  const index = getFirstIndexAfter(points, value, true)
+
+  const previous = points[index - 1]
+  const next = points[index]
+  if (previous == null) return next != null ? index : -1
+  if (next == null) return index - 1
+
+  return value - getPointXValue(previous) < getPointXValue(next) - value
+    ? index - 1
+    : index
+}
+
+/**
+ * Returns the points inside the x-range. The points have to be sorted by x.
+ */
+export const getPointsInRange = <T extends GraphXField<GraphX>>(
+  allPoints: T[],
   range: GraphPathRange
-) => {
-  return allPoints.filter((point) => {
-    const portionFactorX = getXPositionInRange(point.date, range.x)
-    return portionFactorX <= 1 && portionFactorX >= 0
-  })
+): T[] => {
+  const start = getFirstIndexAfter(allPoints, getXValue(range.x.min), true)
+  const end = getFirstIndexAfter(allPoints, getXValue(range.x.max), false)
+  return allPoints.slice(start, end)
 }
 
 type GraphPathWithGradient = { path: SkPath; gradientPath: SkPath }
 
+type GraphSegmentPoint = { x: number; value: number }
+
+/**
+ * Splits the points into segments of continuous data. A segment ends at every
+ * point with a `null` value, and between two points that are further apart
+ * than `gapThreshold`.
+ */
+export function getGraphSegments(
+  points: GraphPoint<GraphX>[],
+  gapThreshold: number | undefined,
+  gapStyle: GraphGapStyle,
+  getValue: (point: GraphPoint<GraphX>) => number | null = (point) =>
+    point.value
+): GraphSegmentPoint[][] {
+  const segments: GraphSegmentPoint[][] = []
+  let segment: GraphSegmentPoint[] = []
+
+  for (const point of points) {
+    const value = getValue(point) ?? (gapStyle === 'zero' ? 0 : null)
+
+    if (value == null) {
+      if (segment.length > 0) segments.push(segment)
+      segment = []
+      continue
+    }
+
+    const x = getPointXValue(point)
+    const previous = segment[segment.length - 1]
+    if (
+      previous != null &&
+      gapThreshold != null &&
+      x - previous.x > gapThreshold
+    ) {
+      segments.push(segment)
+      segment = []
+    }
+
+    segment.push({ x: x, value: value })
+  }
+  if (segment.length > 0) segments.push(segment)
+
+  return segments
+}
+
+interface SegmentPointsConfig {
+  range: GraphPathRange
+  horizontalPadding: number
+  verticalPadding: number
+  drawingWidth: number
+  drawingHeight: number
+  downsampling: GraphDownsampling
+}
+
+/**
+ * Converts the points of a single segment to canvas coordinates, and reduces
+ * them to roughly the amount of points that can actually be displayed.
+ */
+function getSegmentPoints(
+  graphData: GraphSegmentPoint[],
+  {
+    range,
+    horizontalPadding,
+    verticalPadding,
+    drawingWidth,
+    drawingHeight,
+    downsampling,
+  }: SegmentPointsConfig
+): SkPoint[] {
+  const points = graphData.map((point) => ({
+    x: getXInRange(drawingWidth, point.x, range.x) + horizontalPadding,
+    y:
+      drawingHeight -
+      getYInRange(drawingHeight, point.value, range.y) +
+      verticalPadding,
+  }))
+
+  return downsample(points, downsampling)
+}
+
+function getAllSegmentPoints(
+  {
+    pointsInRange,
+    range,
+    horizontalPadding,
+    verticalPadding,
+    canvasHeight: height,
+    canvasWidth: width,
+    gapThreshold,
+    gapStyle = 'break',
+    downsampling = 'lttb',
+  }: GraphPathConfig,
+  getValue?: (point: GraphPoint<GraphX>) => number | null
+): SkPoint[][] {
+  const config: SegmentPointsConfig = {
+    range,
+    horizontalPadding,
+    verticalPadding,
+    downsampling,
+    // Canvas width substracted by the horizontal padding => Actual drawing width
+    drawingWidth: width - 2 * horizontalPadding,
+    // Canvas height substracted by the vertical padding => Actual drawing height
+    drawingHeight: height - 2 * verticalPadding,
+  }
+
+  return getGraphSegments(pointsInRange, gapThreshold, gapStyle, getValue)
+    .map((segment) => getSegmentPoints(segment, config))
+    .filter((points) => points.length > 0)
+}
+
 function createGraphPathBase(
   props: GraphPathConfigWithGradient
 ): GraphPathWithGradient
 function createGraphPathBase(props: GraphPathConfigWithoutGradient): SkPath
 
 function createGraphPathBase({
-  pointsInRange: graphData,
-  range,
-  horizontalPadding,
-  verticalPadding,
-  canvasHeight: height,
-  canvasWidth: width,
   shouldFillGradient,
+  ...props
 }: GraphPathConfigWithGradient | GraphPathConfigWithoutGradient):
   | SkPath
   | GraphPathWithGradient {
+  const {
+    range,
+    horizontalPadding,
+    verticalPadding,
+    canvasHeight: height,
+    curve = 'basis',
+    gapStyle = 'break',
+    fillBaseline,
+  } = props
   const path = Skia.Path.Make()
 
-  // Canvas width substracted by the horizontal padding => Actual drawing width
-  const drawingWidth = width - 2 * horizontalPadding
-  // Canvas height substracted by the vertical padding => Actual drawing height
-  const drawingHeight = height - 2 * verticalPadding
+  const segments = getAllSegmentPoints(props)
+
+  const zeroValue = Math.min(Math.max(0, range.y.min), range.y.max)
+  const zeroY = getValueY(zeroValue, range.y, height, verticalPadding)
+
+  segments.forEach((points, i) => {
+    const firstPoint = points[0]!
+    const previousPoint = segments[i - 1]?.[segments[i - 1]!.length - 1]
+
+    if (previousPoint != null && gapStyle === 'zero') {
+      // drop down to zero for the duration of the gap
+      addLine(path, previousPoint, { x: previousPoint.x, y: zeroY })
+      addLine(
+        path,
+        { x: previousPoint.x, y: zeroY },
+        { x: firstPoint.x, y: zeroY }
+      )
+      addLine(path, { x: firstPoint.x, y: zeroY }, firstPoint)
+    } else {
+      path.moveTo(firstPoint.x, firstPoint.y)
+    }
+    addCurve(path, points, curve)
+  })
+
+  if (!shouldFillGradient) return path
 
-  if (graphData[0] == null) return path
+  const fillY =
+    fillBaseline != null
+      ? getValueY(fillBaseline, range.y, height, verticalPadding)
+      : height + verticalPadding
 
-  const points: SkPoint[] = []
+  const lastSegment = segments[segments.length - 1]
+  const endX = lastSegment?.[lastSegment.length - 1]?.x ?? horizontalPadding
 
-  const startX =
-    getXInRange(drawingWidth, graphData[0]!.date, range.x) + horizontalPadding
-  const endX =
-    getXInRange(drawingWidth, graphData[graphData.length - 1]!.date, range.x) +
-    horizontalPadding
+  if (segments.length < 2 || gapStyle === 'zero') {
+    const gradientPath = path.copy()
 
-  const getGraphDataIndex = (pixel: number) =>
-    Math.round(((pixel - startX) / (endX - startX)) * (graphData.length - 1))
+    gradientPath.lineTo(endX, fillY)
+    gradientPath.lineTo(0 + horizontalPadding, fillY)
 
-  const getNextPixelValue = (pixel: number) => {
-    if (pixel === endX || pixel + PIXEL_RATIO < endX) return pixel + PIXEL_RATIO
-    return endX
+    return { path: path, gradientPath: gradientPath }
   }
 
-  for (
-    let pixel = startX;
-    startX <= pixel && pixel <= endX;
-    pixel = getNextPixelValue(pixel)
-  ) {
-    const index = getGraphDataIndex(pixel)
-
-    // Draw first point only on the very first pixel
-    if (index === 0 && pixel !== startX) continue
-    // Draw last point only on the very last pixel
+  // each segment gets its own fill, so gaps are not filled
+  const gradientPath = Skia.Path.Make()
+  segments.forEach((points) => {
+    const firstPoint = points[0]!
+    const lastPoint = points[points.length - 1]!
+
+    gradientPath.moveTo(firstPoint.x, firstPoint.y)
+    addCurve(gradientPath, points, curve)
+    gradientPath.lineTo(lastPoint.x, fillY)
+    gradientPath.lineTo(firstPoint.x, fillY)
+    gradientPath.close()
+  })
 
-    if (index === graphData.length - 1 && pixel !== endX) continue
+  return { path: path, gradientPath: gradientPath }
+}
 
-    if (index !== 0 && index !== graphData.length - 1) {
-      // Only draw point, when the point is exact
-      const exactPointX =
-        getXInRange(drawingWidth, graphData[index]!.date, range.x) +
-        horizontalPadding
+export function createGraphPath(props: GraphPathConfig): SkPath {
+  return createGraphPathBase({ ...props, shouldFillGradient: false })
+}
 
-      const isExactPointInsidePixelRatio = Array(PIXEL_RATIO)
-        .fill(0)
-        .some((_value, additionalPixel) => {
-          return pixel + additionalPixel === exactPointX
-        })
+export function createGraphPathWithGradient(
+  props: GraphPathConfig
+): GraphPathWithGradient {
+  return createGraphPathBase({
+    ...props,
+    shouldFillGradient: true,
+  })
+}
 
-      if (!isExactPointInsidePixelRatio) continue
-    }
+/**
+ * Creates a Path of straight lines that bridge the gaps between the segments
+ * of the graph, e.g. to be drawn as dashed lines.
+ */
+export function createGraphGapPath(props: GraphPathConfig): SkPath {
+  const path = Skia.Path.Make()
 
-    const value = graphData[index]!.value
-    const y =
-      drawingHeight -
-      getYInRange(drawingHeight, value, range.y) +
-      verticalPadding
+  const segments = getAllSegmentPoints(props)
+  for (let i = 1; i < segments.length; i++) {
+    const previous = segments[i - 1]!
+    const from = previous[previous.length - 1]!
+    const to = segments[i]![0]!
 
-    points.push({ x: pixel, y: y })
+    path.moveTo(from.x, from.y)
+    path.lineTo(to.x, to.y)
   }
 
-  for (let i = 0; i < points.length; i++) {
-    const point = points[i]!
+  return path
+}
 
-    // first point needs to start the path
-    if (i === 0) path.moveTo(point.x, point.y)
+const getBandValue = (point: GraphPoint<GraphX>, edge: 'low' | 'high') =>
+  point.low != null && point.high != null ? point[edge] ?? null : null
 
-    const prev = points[i - 1]
-    const prevPrev = points[i - 2]
+/**
+ * Creates the closed path of the band between the points' `low` and `high`
+ * values, using the same curve as the graph line for both edges.
+ */
+export function createGraphBandPath(props: GraphPathConfig): SkPath {
+  const { curve = 'basis' } = props
+  const path = Skia.Path.Make()
 
-    if (prev == null) continue
+  // the band is always interrupted in gaps
+  const bandProps = { ...props, gapStyle: 'break' as const }
+  const highSegments = getAllSegmentPoints(bandProps, (point) =>
+    getBandValue(point, 'high')
+  )
+  const lowSegments = getAllSegmentPoints(bandProps, (point) =>
+    getBandValue(point, 'low')
+  )
+
+  highSegments.forEach((highPoints, i) => {
+    const lowPoints = lowSegments[i]?.slice().reverse()
+    if (lowPoints == null) return
+
+    const firstHighPoint = highPoints[0]!
+    const lastHighPoint = highPoints[highPoints.length - 1]!
+    const firstLowPoint = lowPoints[0]!
+    const lastLowPoint = lowPoints[lowPoints.length - 1]!
+
+    // along the upper edge, and back along the lower edge
+    path.moveTo(firstHighPoint.x, firstHighPoint.y)
+    addCurve(path, highPoints, curve)
+    addLine(path, lastHighPoint, firstLowPoint)
+    addCurve(path, lowPoints, getReversedCurve(curve))
+    addLine(path, lastLowPoint, firstHighPoint)
+    path.close()
+  })
 
-    const p0 = prevPrev ?? prev
-    const p1 = prev
-    const cp1x = (2 * p0.x + p1.x) / 3
-    const cp1y = (2 * p0.y + p1.y) / 3
-    const cp2x = (p0.x + 2 * p1.x) / 3
-    const cp2y = (p0.y + 2 * p1.y) / 3
-    const cp3x = (p0.x + 4 * p1.x + point.x) / 6
-    const cp3y = (p0.y + 4 * p1.y + point.y) / 6
+  return path
+}
 
-    path.cubicTo(cp1x, cp1y, cp2x, cp2y, cp3x, cp3y)
+/**
+ * The distance (in pixels) between the points a path is measured at before it
+ * gets resampled
+ */
+const MEASURING_STEP = 1
+/**
+ * The distance (in pixels along the x-axis) between the points of a resampled path
+ */
+const RESAMPLING_STEP = 2
+
+/**
+ * Returns each contour of the path as a polyline of points close to each other.
+ */
+function getContourPolylines(path: SkPath): SkPoint[][] {
+  const polylines: SkPoint[][] = []
+  const iterator = Skia.ContourMeasureIter(path, false, 1)
 
-    if (i === points.length - 1) {
-      path.cubicTo(point.x, point.y, point.x, point.y, point.x, point.y)
+  for (
+    let contour = iterator.next();
+    contour != null;
+    contour = iterator.next()
+  ) {
+    const length = contour.length()
+    const count = Math.max(Math.ceil(length / MEASURING_STEP), 1)
+    const polyline: SkPoint[] = []
+    // closed contours end at their start point again
+    for (let i = 0; i <= count; i++) {
+      const [position] = contour.getPosTan((length * i) / count)
+      polyline.push({ x: position.x, y: position.y })
     }
+    polylines.push(polyline)
   }
+  return polylines
+}
 
-  if (!shouldFillGradient) return path
-
-  const gradientPath = path.copy()
+/**
+ * Returns the cumulative distances along the polyline, measured along the
+ * x-axis, or as straight lines if the polyline is vertical.
+ */
+function getPolylineDistances(polyline: SkPoint[]): number[] {
+  const getDistances = (getDistance: (a: SkPoint, b: SkPoint) => number) => {
+    const distances = [0]
+    for (let i = 1; i < polyline.length; i++)
+      distances.push(
+        distances[i - 1]! + getDistance(polyline[i - 1]!, polyline[i]!)
+      )
+    return distances
+  }
 
-  gradientPath.lineTo(endX, height + verticalPadding)
-  gradientPath.lineTo(0 + horizontalPadding, height + verticalPadding)
+  const xDistances = getDistances((a, b) => Math.abs(b.x - a.x))
+  if (xDistances[xDistances.length - 1]! > 0) return xDistances
 
-  return { path: path, gradientPath: gradientPath }
+  return getDistances((a, b) => Math.hypot(b.x - a.x, b.y - a.y))
 }
 
-export function createGraphPath(props: GraphPathConfig): SkPath {
-  return createGraphPathBase({ ...props, shouldFillGradient: false })
+/**
+ * Returns `count` points evenly spaced along the polyline (by x, see
+ * `getPolylineDistances`), so points at the same x morph into each other.
+ */
+function resamplePolyline(polyline: SkPoint[], count: number): SkPoint[] {
+  const distances = getPolylineDistances(polyline)
+  const totalDistance = distances[distances.length - 1]!
+  const points: SkPoint[] = []
+
+  let index = 1
+  for (let i = 0; i < count; i++) {
+    const distance = (totalDistance * i) / Math.max(count - 1, 1)
+    while (index < polyline.length - 1 && distances[index]! < distance) index++
+
+    const start = polyline[index - 1] ?? polyline[0]!
+    const end = polyline[index] ?? start
+    const startDistance = distances[index - 1] ?? 0
+    const span = (distances[index] ?? startDistance) - startDistance
+    const t = span > 0 ? (distance - startDistance) / span : 0
+
+    points.push({
+      x: start.x + (end.x - start.x) * t,
+      y: start.y + (end.y - start.y) * t,
+    })
+  }
+  return points
 }
 
-export function createGraphPathWithGradient(
-  props: GraphPathConfig
-): GraphPathWithGradient {
-  return createGraphPathBase({
-    ...props,
-    shouldFillGradient: true,
+/**
+ * Creates a path of straight lines through the points of each contour.
+ */
+function createPolylinePath(contours: SkPoint[][]): SkPath {
+  const path = Skia.Path.Make()
+  contours.forEach((points) => {
+    points.forEach((point, i) => {
+      if (i === 0) path.moveTo(point.x, point.y)
+      else path.lineTo(point.x, point.y)
+    })
   })
+  return path
+}
+
+/**
+ * Resamples both paths to the same number of contours and the same number
+ * of points per contour, evenly spaced by x, so they can be interpolated into
+ * each other even if they were created from a different number of points
+ * (e.g. when switching from daily to yearly data).
+ *
+ * Returns `undefined` if one of the paths is empty.
+ */
+export function getInterpolatablePaths(
+  from: SkPath,
+  to: SkPath
+): { from: SkPath; to: SkPath } | undefined {
+  const fromPolylines = getContourPolylines(from)
+  const toPolylines = getContourPolylines(to)
+  if (fromPolylines.length < 1 || toPolylines.length < 1) return undefined
+
+  const contourCount = Math.max(fromPolylines.length, toPolylines.length)
+  const pointCount = [...fromPolylines, ...toPolylines].reduce(
+    (count, polyline) =>
+      Math.max(
+        count,
+        Math.ceil(
+          getPolylineDistances(polyline)[polyline.length - 1]! / RESAMPLING_STEP
+        ) + 1
+      ),
+    2
+  )
+
+  const resample = (polylines: SkPoint[][]): SkPath => {
+    const contours = polylines.map((polyline) =>
+      resamplePolyline(polyline, pointCount)
+    )
+    // missing contours collapse into the end of the last one
+    const lastContour = contours[contours.length - 1]!
+    const lastPoint = lastContour[lastContour.length - 1]!
+    while (contours.length < contourCount)
+      contours.push(new Array<SkPoint>(pointCount).fill(lastPoint))
+
+    return createPolylinePath(contours)
+  }
+
+  return { from: resample(fromPolylines), to: resample(toPolylines) }
 }
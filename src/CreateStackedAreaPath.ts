@@ -0,0 +1,138 @@
+import {
+  createGraphPathWithGradient,
+  getGraphPathRange,
+  getPointsInRange,
+  GraphPathRange,
+} from './CreateGraphPath'
+import type { GraphCurve } from './GraphCurves'
+import type { GraphRange, GraphSeries } from './LineGraphProps'
+
+/**
+ * How the layers of a stacked area graph are stacked.
+ *
+ * * `absolute`: The values of the layers are added up
+ * * `percent`: The values are normalized, so the layers always add up to 100%
+ */
+export type GraphStacking = 'absolute' | 'percent'
+
+/**
+ * Stacks the values of the given series on top of each other, so each point's
+ * value is the cumulative value of its layer. The n-th point of every series
+ * has to be at the same date. Missing values count as `0`.
+ */
+export function getStackedSeries(
+  series: GraphSeries[],
+  stacking: GraphStacking
+): GraphSeries[] {
+  const length = series[0]?.points.length ?? 0
+  if (series.some((s) => s.points.length !== length)) {
+    throw new Error(
+      'react-native-graph: All series of a StackedAreaGraph have to have the same amount of points!'
+    )
+  }
+
+  const totals =
+    stacking === 'percent'
+      ? Array.from({ length: length }, (_, i) =>
+          series.reduce((sum, s) => sum + (s.points[i]?.value ?? 0), 0)
+        )
+      : undefined
+
+  const cumulative: number[] = []
+  return series.map((s) => ({
+    ...s,
+    points: s.points.map((point, i) => {
+      const value = (cumulative[i] ?? 0) + (point.value ?? 0)
+      cumulative[i] = value
+
+      const total = totals?.[i]
+      if (total == null) return { date: point.date, value: value }
+      return {
+        date: point.date,
+        value: total !== 0 ? (value / total) * 100 : 0,
+      }
+    }),
+  }))
+}
+
+/**
+ * Same as `getGraphPathRange`, but the y-range always includes `0` (unless
+ * specified otherwise in `range`), and is `0` - `100` for `percent` stacking.
+ */
+export function getStackedAreaRange(
+  stackedSeries: GraphSeries[],
+  stacking: GraphStacking,
+  range?: GraphRange
+): GraphPathRange {
+  const pathRange = getGraphPathRange(
+    stackedSeries.map((s) => s.points),
+    range
+  )
+
+  return {
+    x: pathRange.x,
+    y: {
+      min:
+        range?.y?.min ??
+        (stacking === 'percent' ? 0 : Math.min(pathRange.y.min, 0)),
+      max:
+        range?.y?.max ??
+        (stacking === 'percent' ? 100 : Math.max(pathRange.y.max, 0)),
+    },
+  }
+}
+
+type StackedAreaPathConfig = {
+  /**
+   * The stacked series, see `getStackedSeries`
+   */
+  stackedSeries: GraphSeries[]
+  range: GraphPathRange
+  horizontalPadding: number
+  verticalPadding: number
+  canvasHeight: number
+  canvasWidth: number
+  curve: GraphCurve
+  /**
+   * Creates the paths of all layers flattened onto the zero line, so the layers can grow out of it
+   */
+  flattened?: boolean
+}
+
+/**
+ * Creates the line and the fill path of every layer. The fill of the first layer
+ * is closed at the zero line, the fills of the other layers reach down to the
+ * bottom of the graph, so the layers have to be drawn from top to bottom.
+ */
+export function createStackedAreaPaths({
+  stackedSeries,
+  range,
+  horizontalPadding,
+  verticalPadding,
+  canvasHeight,
+  canvasWidth,
+  curve,
+  flattened = false,
+}: StackedAreaPathConfig): ReturnType<typeof createGraphPathWithGradient>[] {
+  // the stack starts at the zero line, or at the closest edge if zero is out of range
+  const baseline = Math.min(Math.max(0, range.y.min), range.y.max)
+
+  return stackedSeries.map((s, i) => {
+    const pointsInRange = getPointsInRange(s.points, range)
+
+    return createGraphPathWithGradient({
+      pointsInRange: flattened
+        ? pointsInRange.map((point) => ({ ...point, value: baseline }))
+        : pointsInRange,
+      fillBaseline: i === 0 ? baseline : undefined,
+      range,
+      horizontalPadding,
+      verticalPadding,
+      canvasHeight,
+      canvasWidth,
+      curve,
+      // every layer has to keep all dates, otherwise the layers could cross each other
+      downsampling: 'none',
+    })
+  })
+}
@@ -126,6 +126,12 @@ interface Cubic {
   to: Vector
 }
 
+/**
+ * Finds the segment of the path that contains the given x coordinate. Line
+ * and quadratic segments are returned as their equivalent cubic bezier curve.
+ * Vertical segments (e.g. of step curves) are skipped, since they don't
+ * have a distinct y value for x.
+ */
 export const selectCurve = (
   cmds: PathCommand[],
   x: number
@@ -136,22 +142,45 @@ export const selectCurve = (
   for (let i = 0; i < cmds.length; i++) {
     const cmd = cmds[i]
     if (cmd == null) return undefined
+
+    let curve: Cubic | undefined
     if (cmd[0] === PathVerb.Move) {
       from = vec(cmd[1], cmd[2])
+      continue
     } else if (cmd[0] === PathVerb.Cubic) {
-      const c1 = vec(cmd[1], cmd[2])
-      const c2 = vec(cmd[3], cmd[4])
-      const to = vec(cmd[5], cmd[6])
-      if (x >= from.x && x <= to.x) {
-        return {
-          from,
-          c1,
-          c2,
-          to,
-        }
+      curve = {
+        from,
+        c1: vec(cmd[1], cmd[2]),
+        c2: vec(cmd[3], cmd[4]),
+        to: vec(cmd[5], cmd[6]),
+      }
+    } else if (cmd[0] === PathVerb.Line) {
+      const to = vec(cmd[1], cmd[2])
+      curve = { from, c1: from, c2: to, to }
+    } else if (cmd[0] === PathVerb.Quad || cmd[0] === PathVerb.Conic) {
+      // Conics are approximated by their quadratic control polygon
+      const control = vec(cmd[1], cmd[2])
+      const to = vec(cmd[3], cmd[4])
+      curve = {
+        from,
+        c1: vec(
+          from.x + (2 / 3) * (control.x - from.x),
+          from.y + (2 / 3) * (control.y - from.y)
+        ),
+        c2: vec(
+          to.x + (2 / 3) * (control.x - to.x),
+          to.y + (2 / 3) * (control.y - to.y)
+        ),
+        to,
       }
-      from = to
+    } else {
+      continue
+    }
+
+    if (x >= curve.from.x && x <= curve.to.x && curve.to.x > curve.from.x) {
+      return curve
     }
+    from = curve.to
   }
   return undefined
 }
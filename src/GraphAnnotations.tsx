@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react'
+import {
+  Circle,
+  Group,
+  Image,
+  PathCommand,
+  Shadow,
+  Skia,
+  SkFont,
+  SkiaValue,
+  Text,
+  useComputedValue,
+} from '@shopify/react-native-skia'
+import { getYForX } from './GetYForX'
+import { getX, GraphX } from './CreateGraphPath'
+import type { GraphAnnotation } from './LineGraphProps'
+
+const MARKER_RADIUS = 6
+const MARKER_BORDER_RADIUS = 8
+const ICON_SIZE = 8
+const LABEL_FONT_SIZE = 11
+const LABEL_COLOR = '#999999'
+/**
+ * Taps within this distance of a marker's center count as a press on the marker
+ */
+const HIT_SLOP = 20
+
+export interface AnnotationPosition {
+  x: number
+  y: number
+}
+
+/**
+ * Pins the annotations onto the given path commands. Annotations outside of the
+ * drawn line (e.g. outside of the range, or inside of a gap) have no position.
+ */
+export function getAnnotationPositions(
+  annotations: GraphAnnotation<GraphX>[],
+  getCanvasX: (x: GraphX) => number,
+  getCommands: (seriesId: string | undefined) => PathCommand[] | undefined
+): (AnnotationPosition | undefined)[] {
+  return annotations.map((annotation) => {
+    const commands = getCommands(annotation.seriesId)
+    if (commands == null) return undefined
+
+    const x = getCanvasX(getX(annotation))
+    const y = getYForX(commands, x)
+    if (y == null) return undefined
+
+    return { x, y }
+  })
+}
+
+/**
+ * Returns the index of the annotation closest to the tap, or -1 if no annotation was tapped.
+ */
+export function getPressedAnnotationIndex(
+  positions: (AnnotationPosition | undefined)[],
+  x: number,
+  y: number
+): number {
+  let closestIndex = -1
+  let closestDistance = HIT_SLOP
+
+  positions.forEach((position, i) => {
+    if (position == null) return
+
+    const distance = Math.hypot(position.x - x, position.y - y)
+    if (distance <= closestDistance) {
+      closestIndex = i
+      closestDistance = distance
+    }
+  })
+
+  return closestIndex
+}
+
+interface AnnotationMarkerProps {
+  annotation: GraphAnnotation<GraphX>
+  index: number
+  positions: SkiaValue<(AnnotationPosition | undefined)[]>
+  font: SkFont
+}
+
+function AnnotationMarker({
+  annotation,
+  index,
+  positions,
+  font,
+}: AnnotationMarkerProps): React.ReactElement {
+  const cx = useComputedValue(
+    () => positions.current[index]?.x ?? 0,
+    [index, positions]
+  )
+  const cy = useComputedValue(
+    () => positions.current[index]?.y ?? 0,
+    [index, positions]
+  )
+  const opacity = useComputedValue(
+    () => (positions.current[index] != null ? 1 : 0),
+    [index, positions]
+  )
+  const iconX = useComputedValue(() => cx.current - ICON_SIZE / 2, [cx])
+  const iconY = useComputedValue(() => cy.current - ICON_SIZE / 2, [cy])
+  const labelX = useComputedValue(
+    () => cx.current - font.getTextWidth(annotation.label ?? '') / 2,
+    [annotation.label, cx, font]
+  )
+  const labelY = useComputedValue(
+    () => cy.current - MARKER_BORDER_RADIUS - 4,
+    [cy]
+  )
+
+  return (
+    <Group opacity={opacity}>
+      <Circle cx={cx} cy={cy} r={MARKER_BORDER_RADIUS} color="#ffffff">
+        <Shadow dx={1} dy={1} color="rgba(0,0,0,0.2)" blur={2} />
+      </Circle>
+      <Circle cx={cx} cy={cy} r={MARKER_RADIUS} color={annotation.color} />
+      {annotation.icon != null && (
+        <Image
+          image={annotation.icon}
+          x={iconX}
+          y={iconY}
+          width={ICON_SIZE}
+          height={ICON_SIZE}
+          fit="contain"
+        />
+      )}
+      {annotation.label != null && (
+        <Text
+          x={labelX}
+          y={labelY}
+          text={annotation.label}
+          font={font}
+          color={LABEL_COLOR}
+        />
+      )}
+    </Group>
+  )
+}
+
+interface GraphAnnotationMarkersProps {
+  annotations: GraphAnnotation<GraphX>[]
+  positions: SkiaValue<(AnnotationPosition | undefined)[]>
+}
+
+/**
+ * Draws the annotation markers and their labels. Has to be rendered inside a Skia `Canvas`.
+ */
+export function GraphAnnotationMarkers({
+  annotations,
+  positions,
+}: GraphAnnotationMarkersProps): React.ReactElement {
+  const font = useMemo(() => Skia.Font(undefined, LABEL_FONT_SIZE), [])
+
+  return (
+    <Group>
+      {annotations.map((annotation, i) => (
+        <AnnotationMarker
+          key={i}
+          annotation={annotation}
+          index={i}
+          positions={positions}
+          font={font}
+        />
+      ))}
+    </Group>
+  )
+}
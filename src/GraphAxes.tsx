@@ -0,0 +1,157 @@
+import React from 'react'
+import { StyleSheet, Text, View } from 'react-native'
+import { Group, Line, vec } from '@shopify/react-native-skia'
+import type { AxisTick } from './hooks/useAxisTicks'
+import type { GraphXAxisConfig, GraphYAxisConfig } from './LineGraphProps'
+
+export const AXIS_LABEL_HEIGHT = 17
+export const DEFAULT_Y_AXIS_WIDTH = 48
+const X_AXIS_LABEL_WIDTH = 60
+
+const DEFAULT_GRIDLINE_COLOR = 'rgba(0, 0, 0, 0.08)'
+const DEFAULT_LABEL_COLOR = '#999999'
+const DEFAULT_LABEL_FONT_SIZE = 11
+
+interface AxisGridlinesProps {
+  xTicks: AxisTick[]
+  yTicks: AxisTick[]
+  xAxis?: GraphXAxisConfig
+  yAxis?: GraphYAxisConfig
+  width: number
+  height: number
+}
+
+/**
+ * Draws the gridlines of both axes. Has to be rendered inside a Skia `Canvas`.
+ */
+export function AxisGridlines({
+  xTicks,
+  yTicks,
+  xAxis,
+  yAxis,
+  width,
+  height,
+}: AxisGridlinesProps): React.ReactElement {
+  return (
+    <Group>
+      {xAxis?.enableGridlines !== false &&
+        xTicks.map((tick) => (
+          <Line
+            key={`x-${tick.position}`}
+            p1={vec(tick.position, 0)}
+            p2={vec(tick.position, height)}
+            color={xAxis?.gridlineColor ?? DEFAULT_GRIDLINE_COLOR}
+            strokeWidth={1}
+          />
+        ))}
+      {yAxis?.enableGridlines !== false &&
+        yTicks.map((tick) => (
+          <Line
+            key={`y-${tick.position}`}
+            p1={vec(0, tick.position)}
+            p2={vec(width, tick.position)}
+            color={yAxis?.gridlineColor ?? DEFAULT_GRIDLINE_COLOR}
+            strokeWidth={1}
+          />
+        ))}
+    </Group>
+  )
+}
+
+interface YAxisLabelsProps {
+  ticks: AxisTick[]
+  config: GraphYAxisConfig
+}
+
+/**
+ * Renders the y-axis labels in a column next to the canvas, vertically centered on their ticks.
+ */
+export function YAxisLabels({
+  ticks,
+  config,
+}: YAxisLabelsProps): React.ReactElement {
+  const labelStyle = {
+    color: config.labelColor ?? DEFAULT_LABEL_COLOR,
+    fontSize: config.labelFontSize ?? DEFAULT_LABEL_FONT_SIZE,
+    textAlign: config.position === 'left' ? 'right' : 'left',
+  } as const
+
+  return (
+    <View style={{ width: config.width ?? DEFAULT_Y_AXIS_WIDTH }}>
+      {ticks.map((tick) => (
+        <View
+          key={tick.position}
+          style={[
+            styles.yLabel,
+            { top: tick.position - AXIS_LABEL_HEIGHT / 2 },
+          ]}
+        >
+          <Text style={labelStyle} numberOfLines={1}>
+            {tick.label}
+          </Text>
+        </View>
+      ))}
+    </View>
+  )
+}
+
+interface XAxisLabelsProps {
+  ticks: AxisTick[]
+  config: GraphXAxisConfig
+  width: number
+}
+
+/**
+ * Renders the x-axis labels in a row below the canvas, horizontally centered on their
+ * ticks and clamped to the canvas bounds.
+ */
+export function XAxisLabels({
+  ticks,
+  config,
+  width,
+}: XAxisLabelsProps): React.ReactElement {
+  const labelStyle = {
+    color: config.labelColor ?? DEFAULT_LABEL_COLOR,
+    fontSize: config.labelFontSize ?? DEFAULT_LABEL_FONT_SIZE,
+  }
+
+  return (
+    <View style={styles.xAxisRow}>
+      {ticks.map((tick) => {
+        const left = Math.min(
+          Math.max(tick.position - X_AXIS_LABEL_WIDTH / 2, 0),
+          width - X_AXIS_LABEL_WIDTH
+        )
+
+        return (
+          <View key={tick.position} style={[styles.xLabel, { left: left }]}>
+            <Text style={labelStyle} numberOfLines={1}>
+              {tick.label}
+            </Text>
+          </View>
+        )
+      })}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  yLabel: {
+    position: 'absolute',
+    left: 4,
+    right: 4,
+    height: AXIS_LABEL_HEIGHT,
+    justifyContent: 'center',
+  },
+  xAxisRow: {
+    height: AXIS_LABEL_HEIGHT,
+  },
+  xLabel: {
+    position: 'absolute',
+    top: 0,
+    width: X_AXIS_LABEL_WIDTH,
+    height: AXIS_LABEL_HEIGHT,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+})
@@ -0,0 +1,77 @@
+import React from 'react'
+import { SharedValue, useDerivedValue } from 'react-native-reanimated'
+import { DashPathEffect, Group, Line, vec } from '@shopify/react-native-skia'
+import type { GraphCrosshairConfig } from './LineGraphProps'
+
+const DEFAULT_CROSSHAIR_COLOR = '#999999'
+
+interface GraphCrosshairProps {
+  config: GraphCrosshairConfig
+  isActive: SharedValue<boolean>
+  circleX: SharedValue<number>
+  circleY: SharedValue<number>
+  width: number
+  height: number
+  /**
+   * The side of the canvas the horizontal guide leads to
+   */
+  yAxisPosition: 'left' | 'right'
+}
+
+/**
+ * Draws a vertical line at the selection dot and/or a horizontal guide from
+ * the selection dot to the y-axis, while the user is scrubbing.
+ */
+export function GraphCrosshair({
+  config,
+  isActive,
+  circleX,
+  circleY,
+  width,
+  height,
+  yAxisPosition,
+}: GraphCrosshairProps): React.ReactElement {
+  const axes = config.axes ?? 'vertical'
+  const color = config.color ?? DEFAULT_CROSSHAIR_COLOR
+  const thickness = config.thickness ?? 1
+  const guideX = yAxisPosition === 'left' ? 0 : width
+
+  const verticalStart = useDerivedValue(() => vec(circleX.value, 0))
+  const verticalEnd = useDerivedValue(() => vec(circleX.value, height))
+  const horizontalStart = useDerivedValue(() =>
+    vec(circleX.value, circleY.value)
+  )
+  const horizontalEnd = useDerivedValue(() => vec(guideX, circleY.value))
+  const opacity = useDerivedValue(() => (isActive.value ? 1 : 0))
+
+  return (
+    <Group opacity={opacity}>
+      {axes !== 'horizontal' && (
+        <Line
+          p1={verticalStart}
+          p2={verticalEnd}
+          color={color}
+          strokeWidth={thickness}
+          style="stroke"
+        >
+          {config.dashPattern != null && (
+            <DashPathEffect intervals={config.dashPattern} />
+          )}
+        </Line>
+      )}
+      {axes !== 'vertical' && (
+        <Line
+          p1={horizontalStart}
+          p2={horizontalEnd}
+          color={color}
+          strokeWidth={thickness}
+          style="stroke"
+        >
+          {config.dashPattern != null && (
+            <DashPathEffect intervals={config.dashPattern} />
+          )}
+        </Line>
+      )}
+    </Group>
+  )
+}
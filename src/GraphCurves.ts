@@ -0,0 +1,197 @@
+import type { SkPath, SkPoint } from '@shopify/react-native-skia'
+
+/**
+ * The interpolation used to connect the points of the graph.
+ *
+ * * `basis`: A cubic B-spline. Very smooth, but does not pass through the points (except for the first and last one)
+ * * `linear`: Straight lines between the points
+ * * `monotoneX`: A cubic spline that passes through all points and preserves monotonicity in y, so it never overshoots
+ * * `catmullRom`: A cubic Catmull–Rom spline that passes through all points
+ * * `step`: Steps that change value halfway between two points
+ * * `stepBefore`: Steps that change value at the point's x position, before the horizontal line
+ * * `stepAfter`: Steps that change value at the next point's x position, after the horizontal line
+ */
+export type GraphCurve =
+  | 'linear'
+  | 'monotoneX'
+  | 'step'
+  | 'stepBefore'
+  | 'stepAfter'
+  | 'catmullRom'
+  | 'basis'
+
+/**
+ * Adds a straight line as a cubic bezier segment. All curves only use cubic
+ * segments, so that paths of different curves and datasets stay interpolatable.
+ */
+export function addLine(path: SkPath, from: SkPoint, to: SkPoint): void {
+  path.cubicTo(
+    from.x + (to.x - from.x) / 3,
+    from.y + (to.y - from.y) / 3,
+    from.x + (2 * (to.x - from.x)) / 3,
+    from.y + (2 * (to.y - from.y)) / 3,
+    to.x,
+    to.y
+  )
+}
+
+function addLinear(path: SkPath, points: SkPoint[]): void {
+  for (let i = 1; i < points.length; i++) {
+    addLine(path, points[i - 1]!, points[i]!)
+  }
+}
+
+function addStep(path: SkPath, points: SkPoint[], position: number): void {
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1]!
+    const point = points[i]!
+
+    // x position at which the value changes, relative to the segment (0 - 1)
+    const stepX = prev.x + (point.x - prev.x) * position
+    const stepFrom = { x: stepX, y: prev.y }
+    const stepTo = { x: stepX, y: point.y }
+
+    if (position > 0) addLine(path, prev, stepFrom)
+    addLine(path, stepFrom, stepTo)
+    if (position < 1) addLine(path, stepTo, point)
+  }
+}
+
+function addCatmullRom(path: SkPath, points: SkPoint[]): void {
+  for (let i = 1; i < points.length; i++) {
+    const p0 = points[i - 2] ?? points[i - 1]!
+    const p1 = points[i - 1]!
+    const p2 = points[i]!
+    const p3 = points[i + 1] ?? p2
+
+    path.cubicTo(
+      p1.x + (p2.x - p0.x) / 6,
+      p1.y + (p2.y - p0.y) / 6,
+      p2.x - (p3.x - p1.x) / 6,
+      p2.y - (p3.y - p1.y) / 6,
+      p2.x,
+      p2.y
+    )
+  }
+}
+
+// Monotone cubic interpolation, see Steffen, "A Simple Method for Monotonic Interpolation in One Dimension"
+function getMonotoneTangent(prev: SkPoint, point: SkPoint, next: SkPoint) {
+  const h0 = point.x - prev.x
+  const h1 = next.x - point.x
+  if (h0 === 0 || h1 === 0) return 0
+
+  const s0 = (point.y - prev.y) / h0
+  const s1 = (next.y - point.y) / h1
+  const p = (s0 * h1 + s1 * h0) / (h0 + h1)
+
+  return (
+    (Math.sign(s0) + Math.sign(s1)) *
+      Math.min(Math.abs(s0), Math.abs(s1), 0.5 * Math.abs(p)) || 0
+  )
+}
+
+function getMonotoneEndTangent(from: SkPoint, to: SkPoint, tangent: number) {
+  const h = to.x - from.x
+  return h !== 0 ? ((3 * (to.y - from.y)) / h - tangent) / 2 : tangent
+}
+
+function addMonotoneX(path: SkPath, points: SkPoint[]): void {
+  if (points.length < 3) {
+    addLinear(path, points)
+    return
+  }
+
+  const tangents = points.map((point, i) => {
+    const prev = points[i - 1]
+    const next = points[i + 1]
+    if (prev == null || next == null) return 0
+    return getMonotoneTangent(prev, point, next)
+  })
+  tangents[0] = getMonotoneEndTangent(points[0]!, points[1]!, tangents[1]!)
+  const last = points.length - 1
+  tangents[last] = getMonotoneEndTangent(
+    points[last - 1]!,
+    points[last]!,
+    tangents[last - 1]!
+  )
+
+  for (let i = 1; i < points.length; i++) {
+    const p0 = points[i - 1]!
+    const p1 = points[i]!
+    const dx = (p1.x - p0.x) / 3
+
+    path.cubicTo(
+      p0.x + dx,
+      p0.y + dx * tangents[i - 1]!,
+      p1.x - dx,
+      p1.y - dx * tangents[i]!,
+      p1.x,
+      p1.y
+    )
+  }
+}
+
+function addBasis(path: SkPath, points: SkPoint[]): void {
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i]!
+    const prev = points[i - 1]!
+    const prevPrev = points[i - 2]
+
+    const p0 = prevPrev ?? prev
+    const p1 = prev
+    const cp1x = (2 * p0.x + p1.x) / 3
+    const cp1y = (2 * p0.y + p1.y) / 3
+    const cp2x = (p0.x + 2 * p1.x) / 3
+    const cp2y = (p0.y + 2 * p1.y) / 3
+    const cp3x = (p0.x + 4 * p1.x + point.x) / 6
+    const cp3y = (p0.y + 4 * p1.y + point.y) / 6
+
+    path.cubicTo(cp1x, cp1y, cp2x, cp2y, cp3x, cp3y)
+
+    if (i === points.length - 1) {
+      path.cubicTo(point.x, point.y, point.x, point.y, point.x, point.y)
+    }
+  }
+}
+
+/**
+ * Connects the given points on the path using the given curve.
+ * The path has to be moved to the first point already.
+ */
+export function addCurve(
+  path: SkPath,
+  points: SkPoint[],
+  curve: GraphCurve
+): void {
+  switch (curve) {
+    case 'linear':
+      return addLinear(path, points)
+    case 'step':
+      return addStep(path, points, 0.5)
+    case 'stepBefore':
+      return addStep(path, points, 0)
+    case 'stepAfter':
+      return addStep(path, points, 1)
+    case 'catmullRom':
+      return addCatmullRom(path, points)
+    case 'monotoneX':
+      return addMonotoneX(path, points)
+    case 'basis':
+      return addBasis(path, points)
+  }
+}
+
+/**
+ * Returns the curve that draws the same line when the points are connected in reverse order.
+ */
+export function getReversedCurve(curve: GraphCurve): GraphCurve {
+  switch (curve) {
+    case 'stepBefore':
+      return 'stepAfter'
+    case 'stepAfter':
+      return 'stepBefore'
+    default:
+      return curve
+  }
+}
@@ -0,0 +1,155 @@
+import type { SkPoint } from '@shopify/react-native-skia'
+
+/**
+ * The algorithm used to reduce the amount of points before the graph path is created.
+ *
+ * * `lttb`: Largest-Triangle-Three-Buckets. Keeps the points that preserve the visual shape of the line best, with roughly one point every two pixels
+ * * `minMax`: Keeps the minimum and maximum point of every pixel column, so no spike gets lost
+ * * `none`: Draws every point
+ */
+export type GraphDownsampling = 'lttb' | 'minMax' | 'none'
+
+/**
+ * Amount of pixels per point kept by the LTTB algorithm
+ */
+const LTTB_PIXEL_RATIO = 2
+
+/**
+ * Largest-Triangle-Three-Buckets, see Steinarsson, "Downsampling Time Series for Visual Representation".
+ * Always keeps the first and last point.
+ */
+function downsampleLTTB(points: SkPoint[], threshold: number): SkPoint[] {
+  if (points.length <= threshold) return points
+
+  const first = points[0]!
+  const last = points[points.length - 1]!
+  if (threshold < 3) return [first, last]
+
+  const sampled: SkPoint[] = [first]
+
+  // the first and last point are kept as they are, everything in between is split into buckets
+  const bucketSize = (points.length - 2) / (threshold - 2)
+  let selected = first
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1
+    const end = Math.floor((bucket + 1) * bucketSize) + 1
+
+    // average of the next bucket, the third corner of the triangle
+    const nextStart = end
+    const nextEnd = Math.min(
+      Math.floor((bucket + 2) * bucketSize) + 1,
+      points.length
+    )
+    let avgX = 0
+    let avgY = 0
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += points[i]!.x
+      avgY += points[i]!.y
+    }
+    const nextCount = nextEnd - nextStart
+    if (nextCount > 0) {
+      avgX /= nextCount
+      avgY /= nextCount
+    } else {
+      avgX = last.x
+      avgY = last.y
+    }
+
+    let maxArea = -1
+    let next = points[start]!
+    for (let i = start; i < end; i++) {
+      const point = points[i]!
+      // double the triangle's area, the factor doesn't matter for comparisons
+      const area = Math.abs(
+        (selected.x - avgX) * (point.y - selected.y) -
+          (selected.x - point.x) * (avgY - selected.y)
+      )
+      if (area > maxArea) {
+        maxArea = area
+        next = point
+      }
+    }
+
+    sampled.push(next)
+    selected = next
+  }
+
+  sampled.push(last)
+  return sampled
+}
+
+/**
+ * Keeps the minimum and maximum point (in their original order) of every pixel column.
+ * Always keeps the first and last point.
+ */
+function downsampleMinMax(points: SkPoint[]): SkPoint[] {
+  if (points.length < 3) return points
+
+  const first = points[0]!
+  const last = points[points.length - 1]!
+  const sampled: SkPoint[] = [first]
+
+  let column = Math.floor(first.x)
+  let min: SkPoint | undefined
+  let max: SkPoint | undefined
+  let minIndex = 0
+  let maxIndex = 0
+
+  const flush = () => {
+    if (min == null || max == null) return
+    if (min === max) sampled.push(min)
+    else if (minIndex < maxIndex) sampled.push(min, max)
+    else sampled.push(max, min)
+  }
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const point = points[i]!
+    const pointColumn = Math.floor(point.x)
+
+    if (pointColumn !== column) {
+      flush()
+      column = pointColumn
+      min = undefined
+      max = undefined
+    }
+
+    if (min == null || point.y < min.y) {
+      min = point
+      minIndex = i
+    }
+    if (max == null || point.y > max.y) {
+      max = point
+      maxIndex = i
+    }
+  }
+  flush()
+
+  sampled.push(last)
+  return sampled
+}
+
+/**
+ * Reduces the given canvas points (sorted by x) to roughly the amount that
+ * can actually be displayed, using the given algorithm.
+ */
+export function downsample(
+  points: SkPoint[],
+  algorithm: GraphDownsampling
+): SkPoint[] {
+  const first = points[0]
+  const last = points[points.length - 1]
+  if (first == null || last == null) return points
+
+  switch (algorithm) {
+    case 'lttb':
+      return downsampleLTTB(
+        points,
+        Math.floor((last.x - first.x) / LTTB_PIXEL_RATIO) + 1
+      )
+    case 'minMax':
+      return downsampleMinMax(points)
+    case 'none':
+      return points
+  }
+}
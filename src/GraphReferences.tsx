@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useRef } from 'react'
+import type { SharedValue } from 'react-native-reanimated'
+import {
+  DashPathEffect,
+  Group,
+  Line,
+  Rect,
+  Skia,
+  SkFont,
+  SkiaValue,
+  Text,
+  Transforms2d,
+  useComputedValue,
+  useValue,
+  vec,
+} from '@shopify/react-native-skia'
+import {
+  getXInRange,
+  getYInRange,
+  GraphPathRange,
+  GraphX,
+} from './CreateGraphPath'
+import type {
+  GraphAnimationConfig,
+  GraphReferenceArea,
+  GraphReferenceLine,
+} from './LineGraphProps'
+import { runGraphAnimation } from './utils/runGraphAnimation'
+
+const DEFAULT_LINE_COLOR = '#999999'
+const DEFAULT_AREA_COLOR = 'rgba(0, 0, 0, 0.05)'
+const DEFAULT_LABEL_COLOR = '#999999'
+const LABEL_FONT_SIZE = 11
+const LABEL_MARGIN = 4
+
+interface ReferencesProps {
+  range: GraphPathRange
+  width: number
+  height: number
+  horizontalPadding: number
+  verticalPadding: number
+  /**
+   * Whether changes of the range are animated
+   */
+  animated: boolean
+  /**
+   * How changes of the range are animated, like the graph path
+   */
+  animation?: GraphAnimationConfig
+  /**
+   * While zooming, the references follow the fingers without animation
+   */
+  isZooming?: SharedValue<boolean>
+  /**
+   * Moves the references that are positioned on the x-axis along with the
+   * line, e.g. while new points are streamed in
+   */
+  xTransform?: SharedValue<Transforms2d>
+}
+
+interface Positions {
+  getX: (x: GraphX) => number
+  getY: (value: number) => number
+}
+
+function useReferencePositions({
+  range,
+  width,
+  height,
+  horizontalPadding,
+  verticalPadding,
+}: ReferencesProps): Positions {
+  return useMemo(() => {
+    const drawingWidth = width - 2 * horizontalPadding
+    const drawingHeight = height - 2 * verticalPadding
+
+    return {
+      getX: (x) => getXInRange(drawingWidth, x, range.x) + horizontalPadding,
+      getY: (value) =>
+        drawingHeight -
+        getYInRange(drawingHeight, value, range.y) +
+        verticalPadding,
+    }
+  }, [height, horizontalPadding, range, verticalPadding, width])
+}
+
+/**
+ * Returns a value that follows the given canvas position, with the same
+ * spring animation as the graph path.
+ */
+function useAnimatedPosition(
+  target: number,
+  { animated, animation, isZooming }: ReferencesProps
+): SkiaValue<number> {
+  const position = useValue(target)
+  // read through a ref, so an inline config doesn't restart the animation on every render
+  const animationConfig = useRef(animation)
+  animationConfig.current = animation
+
+  useEffect(() => {
+    if (!animated || isZooming?.value) {
+      position.current = target
+      return
+    }
+
+    runGraphAnimation(position, target, animationConfig.current)
+  }, [animated, isZooming, position, target])
+
+  return position
+}
+
+function useLabelFont(): SkFont {
+  return useMemo(() => Skia.Font(undefined, LABEL_FONT_SIZE), [])
+}
+
+interface ReferenceLineProps extends ReferencesProps {
+  line: GraphReferenceLine<GraphX>
+  positions: Positions
+  font: SkFont
+}
+
+function ReferenceLine({
+  line,
+  positions,
+  font,
+  ...props
+}: ReferenceLineProps): React.ReactElement {
+  const isVertical = line.x != null
+  const position = useAnimatedPosition(
+    line.x != null ? positions.getX(line.x) : positions.getY(line.y),
+    props
+  )
+
+  const p1 = useComputedValue(
+    () => (isVertical ? vec(position.current, 0) : vec(0, position.current)),
+    [isVertical, position]
+  )
+  const p2 = useComputedValue(
+    () =>
+      isVertical
+        ? vec(position.current, props.height)
+        : vec(props.width, position.current),
+    [isVertical, position, props.height, props.width]
+  )
+  const labelX = useComputedValue(
+    () => (isVertical ? position.current + LABEL_MARGIN : LABEL_MARGIN),
+    [isVertical, position]
+  )
+  const labelY = useComputedValue(
+    () =>
+      isVertical
+        ? LABEL_FONT_SIZE + LABEL_MARGIN
+        : position.current - LABEL_MARGIN,
+    [isVertical, position]
+  )
+
+  return (
+    <Group transform={isVertical ? props.xTransform : undefined}>
+      <Line
+        p1={p1}
+        p2={p2}
+        color={line.color ?? DEFAULT_LINE_COLOR}
+        strokeWidth={line.thickness ?? 1}
+        style="stroke"
+      >
+        {line.dashPattern != null && (
+          <DashPathEffect intervals={line.dashPattern} />
+        )}
+      </Line>
+      {line.label != null && (
+        <Text
+          x={labelX}
+          y={labelY}
+          text={line.label}
+          font={font}
+          color={line.labelColor ?? DEFAULT_LABEL_COLOR}
+        />
+      )}
+    </Group>
+  )
+}
+
+interface ReferenceAreaProps extends ReferencesProps {
+  area: GraphReferenceArea<GraphX>
+  positions: Positions
+  font: SkFont
+}
+
+function ReferenceArea({
+  area,
+  positions,
+  font,
+  ...props
+}: ReferenceAreaProps): React.ReactElement {
+  const isVertical = area.x != null
+  // start is the left edge of a vertical band, or the top edge of a horizontal band
+  const start = useAnimatedPosition(
+    area.x != null ? positions.getX(area.x.min) : positions.getY(area.y.max),
+    props
+  )
+  const end = useAnimatedPosition(
+    area.x != null ? positions.getX(area.x.max) : positions.getY(area.y.min),
+    props
+  )
+
+  const x = useComputedValue(
+    () => (isVertical ? start.current : 0),
+    [isVertical, start]
+  )
+  const y = useComputedValue(
+    () => (isVertical ? 0 : start.current),
+    [isVertical, start]
+  )
+  const width = useComputedValue(
+    () => (isVertical ? end.current - start.current : props.width),
+    [end, isVertical, props.width, start]
+  )
+  const height = useComputedValue(
+    () => (isVertical ? props.height : end.current - start.current),
+    [end, isVertical, props.height, start]
+  )
+  const labelX = useComputedValue(() => x.current + LABEL_MARGIN, [x])
+  const labelY = useComputedValue(
+    () => y.current + LABEL_FONT_SIZE + LABEL_MARGIN,
+    [y]
+  )
+
+  return (
+    <Group transform={isVertical ? props.xTransform : undefined}>
+      <Rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        color={area.color ?? DEFAULT_AREA_COLOR}
+      />
+      {area.label != null && (
+        <Text
+          x={labelX}
+          y={labelY}
+          text={area.label}
+          font={font}
+          color={area.labelColor ?? DEFAULT_LABEL_COLOR}
+        />
+      )}
+    </Group>
+  )
+}
+
+interface GraphReferenceLinesProps extends ReferencesProps {
+  lines: GraphReferenceLine<GraphX>[]
+}
+
+/**
+ * Draws the reference lines and their labels. Has to be rendered inside a Skia `Canvas`.
+ */
+export function GraphReferenceLines({
+  lines,
+  ...props
+}: GraphReferenceLinesProps): React.ReactElement {
+  const positions = useReferencePositions(props)
+  const font = useLabelFont()
+
+  return (
+    <Group>
+      {lines.map((line, i) => (
+        <ReferenceLine
+          key={i}
+          line={line}
+          positions={positions}
+          font={font}
+          {...props}
+        />
+      ))}
+    </Group>
+  )
+}
+
+interface GraphReferenceAreasProps extends ReferencesProps {
+  areas: GraphReferenceArea<GraphX>[]
+}
+
+/**
+ * Draws the reference areas and their labels. Has to be rendered inside a Skia `Canvas`.
+ */
+export function GraphReferenceAreas({
+  areas,
+  ...props
+}: GraphReferenceAreasProps): React.ReactElement {
+  const positions = useReferencePositions(props)
+  const font = useLabelFont()
+
+  return (
+    <Group>
+      {areas.map((area, i) => (
+        <ReferenceArea
+          key={i}
+          area={area}
+          positions={positions}
+          font={font}
+          {...props}
+        />
+      ))}
+    </Group>
+  )
+}
@@ -1,11 +1,25 @@
 import React from 'react'
 import { AnimatedLineGraph } from './AnimatedLineGraph'
-import type { LineGraphProps } from './LineGraphProps'
+import type { GraphX } from './CreateGraphPath'
+import type { LineGraphProps, LineGraphRef } from './LineGraphProps'
 import { StaticLineGraph } from './StaticLineGraph'
 
-function LineGraphImpl(props: LineGraphProps): React.ReactElement {
-  if (props.animated) return <AnimatedLineGraph {...props} />
+function LineGraphImpl(
+  props: LineGraphProps<GraphX>,
+  ref: React.ForwardedRef<LineGraphRef<GraphX>>
+): React.ReactElement {
+  if (props.animated) return <AnimatedLineGraph {...props} ref={ref} />
   else return <StaticLineGraph {...props} />
 }
 
-export const LineGraph = React.memo(LineGraphImpl)
+/**
+ * The x-values of the points are `Date`s by default, or `number`s (e.g.
+ * `<LineGraph<number> ... />`) for a numeric x-axis.
+ *
+ * An animated graph can be controlled through a `ref`, see `LineGraphRef`.
+ */
+export const LineGraph = React.memo(React.forwardRef(LineGraphImpl)) as <
+  X extends GraphX = Date
+>(
+  props: LineGraphProps<X> & React.RefAttributes<LineGraphRef<X>>
+) => React.ReactElement
@@ -1,116 +1,682 @@
 import type React from 'react'
 import type { ViewProps } from 'react-native'
-import type { GraphPathRange } from './CreateGraphPath'
+import type {
+  GraphGapStyle,
+  GraphX,
+  GraphXMode,
+  GraphXRange,
+  GraphYRange,
+  GraphYScale,
+} from './CreateGraphPath'
 import type { SharedValue } from 'react-native-reanimated'
-import type { Color } from '@shopify/react-native-skia'
+import type { Color, SkImage } from '@shopify/react-native-skia'
+import type { GraphCurve } from './GraphCurves'
+import type { GraphDownsampling } from './GraphDownsampling'
 
-export interface GraphPoint {
-  value: number
-  date: Date
+/**
+ * The position of a point on the x-axis: a `date` on a time axis, or a plain
+ * number `x` (e.g. a distance or an altitude) on a numeric axis.
+ */
+export type GraphXField<X extends GraphX> = X extends Date
+  ? { date: Date; x?: undefined }
+  : { x: number; date?: undefined }
+
+interface GraphPointBase {
+  /**
+   * The value of this point, or `null` if there is no data for this date (e.g. a market closure or a sensor outage)
+   */
+  value: number | null
+  /**
+   * (Optional) The lower edge of a band drawn around the line, e.g. the daily low or the lower bound of a confidence interval
+   */
+  low?: number | null
+  /**
+   * (Optional) The upper edge of a band drawn around the line, e.g. the daily high or the upper bound of a confidence interval
+   */
+  high?: number | null
+  /**
+   * (Optional) The name of this point, e.g. a category or a session. If given,
+   * it is shown on the x-axis instead of the date when `xMode` is `index`.
+   */
+  label?: string
 }
 
-export type GraphRange = Partial<GraphPathRange>
+/**
+ * A point of the graph. Its x-value is a `Date` by default, or a number if `X` is `number`.
+ */
+export type GraphPoint<X extends GraphX = Date> = GraphPointBase &
+  GraphXField<X>
 
-export interface SelectionDotProps {
-  isActive: SharedValue<boolean>
-  color: BaseLineGraphProps['color']
-  lineThickness: BaseLineGraphProps['lineThickness']
-  circleX: SharedValue<number>
-  circleY: SharedValue<number>
+/**
+ * A value of per-category (or per-session) data, see `getCategoryPoints`
+ */
+export type GraphCategory = Omit<GraphPointBase, 'label'> & {
+  label: string
+}
+
+export interface GraphRange<X extends GraphX = Date> {
+  x?: GraphXRange<X>
+  y?: GraphYRange
 }
 
-interface BaseLineGraphProps extends ViewProps {
+export interface GraphSeries<X extends GraphX = Date> {
   /**
-   * All points to be marked in the graph. Coordinate system will adjust to scale automatically.
+   * A unique identifier for this series, used as the key in `onPointSelected`
    */
-  points: GraphPoint[]
+  id: string
   /**
-   * Range of the graph's x and y-axis. The range must be greater
-   * than the range given by the points.
+   * All points of this series. The coordinate system is shared between all series.
    */
-  range?: GraphRange
+  points: GraphPoint<X>[]
   /**
-   * Color of the graph line (path)
+   * Color of this series' line (path)
    */
   color: string
   /**
-   * (Optional) Colors for the fill gradient below the graph line
+   * The width of this series' line (path)
+   *
+   * @default 3
+   */
+  lineThickness?: number
+  /**
+   * (Optional) Colors for the fill gradient below this series' line
    */
   gradientFillColors?: Color[]
   /**
-   * The width of the graph line (path)
+   * The color of the band between the points' `low` and `high` values
    *
-   * @default 3
+   * @default the series' color with an opacity of 20%
    */
-  lineThickness?: number
+  bandColor?: Color
+}
+
+export interface GraphAxisConfig<T> {
   /**
-   * Enable the Fade-In Gradient Effect at the beginning of the Graph
+   * The approximate number of ticks. The actual number may differ,
+   * so ticks can be placed on "nice" values.
+   *
+   * @default 5
+   */
+  tickCount?: number
+  /**
+   * Formats the label of a tick
+   */
+  formatLabel?: (value: T) => string
+  /**
+   * Whether to draw gridlines at the ticks
+   *
+   * @default true
    */
-  enableFadeInMask?: boolean
+  enableGridlines?: boolean
+  /**
+   * Color of the gridlines
+   *
+   * @default 'rgba(0, 0, 0, 0.08)'
+   */
+  gridlineColor?: string
+  /**
+   * Color of the labels
+   *
+   * @default '#999999'
+   */
+  labelColor?: string
+  /**
+   * Font size of the labels
+   *
+   * @default 11
+   */
+  labelFontSize?: number
 }
 
-export type StaticLineGraphProps = BaseLineGraphProps & {
-  /* any static-only line graph props? */
+export type GraphXAxisConfig<X extends GraphX = Date> = GraphAxisConfig<X>
+
+export type GraphYAxisConfig = GraphAxisConfig<number> & {
+  /**
+   * On which side of the graph the labels are rendered
+   *
+   * @default 'right'
+   */
+  position?: 'left' | 'right'
+  /**
+   * Width of the label column
+   *
+   * @default 48
+   */
+  width?: number
 }
-export type AnimatedLineGraphProps = BaseLineGraphProps & {
+
+interface GraphReferenceBase {
   /**
-   * Whether to enable Graph scrubbing/pan gesture.
+   * The color of the line or area
    */
-  enablePanGesture?: boolean
+  color?: string
   /**
-   * The color of the selection dot when the user is panning the graph.
+   * An optional label, rendered at the start of the line or area
    */
-  selectionDotShadowColor?: string
+  label?: string
+  labelColor?: string
+}
+
+/**
+ * A horizontal line at the value `y`, or a vertical line at the date (or number) `x`.
+ */
+export type GraphReferenceLine<X extends GraphX = Date> = GraphReferenceBase & {
+  /**
+   * @default 1
+   */
+  thickness?: number
+  /**
+   * Lengths of the alternating dashes and gaps, e.g. `[4, 4]`. The line is solid if omitted.
+   */
+  dashPattern?: number[]
+} & ({ y: number; x?: undefined } | { x: X; y?: undefined })
+
+/**
+ * A horizontal band between two values (`y`), or a vertical band between two dates (or numbers, `x`).
+ */
+export type GraphReferenceArea<X extends GraphX = Date> = GraphReferenceBase &
+  ({ y: GraphYRange; x?: undefined } | { x: GraphXRange<X>; y?: undefined })
+
+interface GraphAnnotationBase {
   /**
-   * Horizontal padding applied to graph, so the pan gesture dot doesn't get cut off horizontally
+   * The color of the marker
    */
-  horizontalPadding?: number
+  color: string
+  /**
+   * An optional label, rendered above the marker
+   */
+  label?: string
+  /**
+   * An optional image, rendered inside the marker (e.g. loaded with `useImage`)
+   */
+  icon?: SkImage
+  /**
+   * The `id` of the series the marker is pinned to. Defaults to the first series.
+   */
+  seriesId?: string
+}
+
+/**
+ * A marker pinned onto the graph line at the given date (or `x`), e.g. a dividend, a trade or a news event.
+ */
+export type GraphAnnotation<X extends GraphX = Date> = GraphAnnotationBase &
+  GraphXField<X>
+
+/**
+ * The lines drawn through the selection dot while the user is scrubbing/panning through the graph.
+ */
+export interface GraphCrosshairConfig {
   /**
-   * Vertical padding applied to graph, so the pan gesture dot doesn't get cut off vertically
+   * Which lines to draw: a vertical line at the finger position, a horizontal
+   * guide from the selection dot to the y-axis, or both
+   *
+   * @default 'vertical'
    */
-  verticalPadding?: number
+  axes?: 'vertical' | 'horizontal' | 'both'
   /**
-   * Enables an indicator which is displayed at the end of the graph
+   * @default '#999999'
    */
-  enableIndicator?: boolean
+  color?: string
   /**
-   * Let's the indicator pulsate
+   * @default 1
    */
-  indicatorPulsating?: boolean
+  thickness?: number
   /**
-   * Delay after which the pan gesture starts
+   * Lengths of the alternating dashes and gaps, e.g. `[4, 4]`. The lines are solid if omitted.
    */
-  panGestureDelay?: number
+  dashPattern?: number[]
+}
 
+/**
+ * How the graph animates between datasets, and when it is first shown
+ */
+export interface GraphAnimationConfig {
+  /**
+   * * `spring`: A spring animation, configured by `mass`, `stiffness` and `damping`
+   * * `timing`: An animation with a fixed `duration` and `easing`
+   *
+   * @default 'spring'
+   */
+  type?: 'spring' | 'timing'
+  /**
+   * @default 1
+   */
+  mass?: number
+  /**
+   * @default 500
+   */
+  stiffness?: number
+  /**
+   * @default 400
+   */
+  damping?: number
   /**
-   * Called for each point while the user is scrubbing/panning through the graph
+   * The duration of a `timing` animation in milliseconds
+   *
+   * @default 300
    */
-  onPointSelected?: (point: GraphPoint) => void
+  duration?: number
   /**
-   * Called once the user starts scrubbing/panning through the graph
+   * The easing function of a `timing` animation, e.g. `Easing.bezier(...)` of react-native-skia
    */
-  onGestureStart?: () => void
+  easing?: (t: number) => number
   /**
-   * Called once the user stopped scrubbing/panning through the graph
+   * How the graph animates in when it is first shown:
+   *
+   * * `morph`: From a straight line through the middle of the graph
+   * * `grow`: From a flat line at the bottom of the graph (or at the `baseline`)
+   * * `draw`: The line is drawn from left to right, and its fill fades in
+   * * `fade`: The graph fades in
+   *
+   * @default 'morph'
    */
-  onGestureEnd?: () => void
+  entry?: 'morph' | 'grow' | 'draw' | 'fade'
+}
 
+/**
+ * Shows the latest part of data that is continuously extended, e.g. the prices of a live ticker
+ */
+export interface GraphStreamingConfig {
   /**
-   * The element that renders the selection dot
+   * The length of the visible window along the x-axis, in milliseconds
+   * (or in units of `x` on a numeric x-axis)
    */
-  SelectionDot?: React.ComponentType<SelectionDotProps> | null
+  window: number
+}
 
+/**
+ * The range the user selected with two fingers, see `enableRangeSelection`
+ */
+export interface GraphRangeSelection<X extends GraphX = Date> {
+  /**
+   * The point (of the first series) at the left finger
+   */
+  start: GraphPoint<X>
+  /**
+   * The point (of the first series) at the right finger
+   */
+  end: GraphPoint<X>
+  /**
+   * The change from the `start` to the `end` value
+   */
+  absoluteChange: number
   /**
-   * The element that gets rendered above the Graph (usually the "max" point/value of the Graph)
+   * The change from the `start` to the `end` value in percent of the `start` value,
+   * e.g. `12.4` for +12.4%, or `null` if the `start` value is `0`.
    */
-  TopAxisLabel?: () => React.ReactElement | null
+  percentChange: number | null
+}
 
+export interface SelectionTooltipProps {
+  isActive: SharedValue<boolean>
+  color: string
+  circleX: SharedValue<number>
+  circleY: SharedValue<number>
+  /**
+   * The value of the selected point
+   */
+  value: SharedValue<number>
   /**
-   * The element that gets rendered below the Graph (usually the "min" point/value of the Graph)
+   * The date of the selected point in milliseconds since 1970, or its `x` on a numeric x-axis
    */
-  BottomAxisLabel?: () => React.ReactElement | null
+  date: SharedValue<number>
+  /**
+   * Whether the x-values of the graph are dates or plain numbers
+   */
+  xType: 'date' | 'number'
+  /**
+   * The `label` of the selected point (e.g. its category), if it has one
+   */
+  label: SharedValue<string | undefined>
+  canvasWidth: number
+  canvasHeight: number
+}
+
+export interface SelectionDotProps {
+  isActive: SharedValue<boolean>
+  color: string
+  lineThickness: BaseLineGraphProps<GraphX>['lineThickness']
+  circleX: SharedValue<number>
+  circleY: SharedValue<number>
 }
 
-export type LineGraphProps =
-  | ({ animated: true } & AnimatedLineGraphProps)
-  | ({ animated: false } & StaticLineGraphProps)
+type GraphDataProps<X extends GraphX> =
+  | {
+      /**
+       * All points to be marked in the graph. Coordinate system will adjust to scale automatically.
+       */
+      points: GraphPoint<X>[]
+      /**
+       * Color of the graph line (path)
+       */
+      color: string
+      series?: undefined
+    }
+  | {
+      points?: undefined
+      color?: undefined
+      /**
+       * Multiple lines to be drawn in the same graph. The coordinate system
+       * adjusts to the union of all series, and each series is drawn
+       * with its own color and line thickness.
+       */
+      series: GraphSeries<X>[]
+    }
+
+type BaseLineGraphProps<X extends GraphX> = ViewProps &
+  GraphDataProps<X> & {
+    /**
+     * Range of the graph's x and y-axis. The range must be greater
+     * than the range given by the points.
+     */
+    range?: GraphRange<X>
+    /**
+     * (Optional) Colors for the fill gradient below the graph line
+     */
+    gradientFillColors?: Color[]
+    /**
+     * The color of the band between the points' `low` and `high` values
+     *
+     * @default the line's color with an opacity of 20%
+     */
+    bandColor?: Color
+    /**
+     * The width of the graph line (path)
+     *
+     * @default 3
+     */
+    lineThickness?: number
+    /**
+     * A value (e.g. the opening price) at which the graph line changes its color.
+     * Above the baseline the line is drawn in `positiveColor`, below it in `negativeColor`.
+     */
+    baseline?: number
+    /**
+     * The color of the graph line above the `baseline`
+     *
+     * @default '#26a69a'
+     */
+    positiveColor?: string
+    /**
+     * The color of the graph line below the `baseline`
+     *
+     * @default '#ef5350'
+     */
+    negativeColor?: string
+    /**
+     * (Optional) Colors for the fill gradient between the graph line and the `baseline`,
+     * from the top of the graph to the `baseline`
+     */
+    positiveGradientFillColors?: Color[]
+    /**
+     * (Optional) Colors for the fill gradient between the graph line and the `baseline`,
+     * from the `baseline` to the bottom of the graph
+     */
+    negativeGradientFillColors?: Color[]
+    /**
+     * Enable the Fade-In Gradient Effect at the beginning of the Graph
+     */
+    enableFadeInMask?: boolean
+    /**
+     * The interpolation used to connect the points of the graph line (path)
+     *
+     * @default 'basis'
+     */
+    curve?: GraphCurve
+    /**
+     * Maximum duration (in milliseconds, or in units of `x` on a numeric x-axis) between two consecutive points before the
+     * line is interrupted. Points with a `null` value always interrupt the line.
+     */
+    gapThreshold?: number
+    /**
+     * How gaps in the data are drawn:
+     *
+     * * `break`: The line is interrupted
+     * * `dashed`: The line is interrupted, and the gap is bridged with a dashed line
+     * * `zero`: The line drops down to zero for the duration of the gap
+     *
+     * @default 'break'
+     */
+    gapStyle?: GraphGapStyle
+    /**
+     * The algorithm used to reduce large datasets to roughly the amount of points
+     * that can be displayed on the measured canvas width:
+     *
+     * * `lttb`: Largest-Triangle-Three-Buckets, preserves the visual shape of the line
+     * * `minMax`: Keeps the minimum and maximum of every pixel column, so no spike gets lost
+     * * `none`: Draws every point
+     *
+     * `onPointSelected` always returns the original points.
+     *
+     * @default 'lttb'
+     */
+    downsample?: GraphDownsampling
+    /**
+     * How the points are positioned along the x-axis:
+     *
+     * * `time`: By date, so the distance between two points is proportional to the time between them
+     * * `index`: Evenly spaced by index, which compresses periods without data (e.g. weekends and holidays of stock prices)
+     *
+     * @default 'time'
+     */
+    xMode?: GraphXMode
+    /**
+     * How the values are positioned along the y-axis: `linear`, `log` (logarithmic,
+     * non-positive values are drawn at the bottom with a warning in development)
+     * or a custom `{ forward, inverse }` scale.
+     *
+     * The y-axis labels and `onPointSelected` still use the raw values. Memoize a
+     * custom scale (e.g. with `useMemo`), since every new object animates the graph again.
+     *
+     * @default 'linear'
+     */
+    yScale?: GraphYScale
+    /**
+     * Shows an x-axis with time-aware ticks (e.g. full hours, days or months) below the graph,
+     * or ticks on "nice" values on a numeric x-axis.
+     */
+    xAxis?: GraphXAxisConfig<X>
+    /**
+     * Shows a y-axis with ticks on "nice" values next to the graph.
+     */
+    yAxis?: GraphYAxisConfig
+    /**
+     * Horizontal lines at given values (e.g. a purchase price) or vertical
+     * lines at given dates (e.g. "today"), drawn on top of the graph.
+     */
+    referenceLines?: GraphReferenceLine<X>[]
+    /**
+     * Horizontal bands between two values (e.g. a target range) or vertical
+     * bands between two dates, drawn behind the graph.
+     */
+    referenceAreas?: GraphReferenceArea<X>[]
+    /**
+     * Markers pinned onto the graph line at the given dates.
+     */
+    annotations?: GraphAnnotation<X>[]
+  }
+
+export type StaticLineGraphProps<X extends GraphX = Date> =
+  BaseLineGraphProps<X> & {
+    /* any static-only line graph props? */
+  }
+export type AnimatedLineGraphProps<X extends GraphX = Date> =
+  BaseLineGraphProps<X> & {
+    /**
+     * Whether to enable Graph scrubbing/pan gesture.
+     */
+    enablePanGesture?: boolean
+    /**
+     * The color of the selection dot when the user is panning the graph.
+     */
+    selectionDotShadowColor?: string
+    /**
+     * Horizontal padding applied to graph, so the pan gesture dot doesn't get cut off horizontally
+     */
+    horizontalPadding?: number
+    /**
+     * Vertical padding applied to graph, so the pan gesture dot doesn't get cut off vertically
+     */
+    verticalPadding?: number
+    /**
+     * Enables an indicator which is displayed at the end of the graph
+     */
+    enableIndicator?: boolean
+    /**
+     * Let's the indicator pulsate
+     */
+    indicatorPulsating?: boolean
+    /**
+     * Delay after which the pan gesture starts
+     */
+    panGestureDelay?: number
+    /**
+     * How the selection dot follows the finger while the user is scrubbing/panning through the graph.
+     *
+     * * `interpolated`: The dot moves along the (smoothed) line
+     * * `snapToPoint`: The dot jumps onto the data point closest to the finger by date, so it always matches the point passed to `onPointSelected`
+     *
+     * @default 'interpolated'
+     */
+    selectionMode?: 'interpolated' | 'snapToPoint'
+    /**
+     * Draws a crosshair through the selection dot while the user is scrubbing/panning through the graph.
+     */
+    crosshair?: GraphCrosshairConfig
+    /**
+     * Whether to let the user select a range by touching the graph with two fingers.
+     * The line outside of the selected range is dimmed.
+     *
+     * With `enableZoom`, the fingers have to rest on the graph for a moment before the
+     * selection starts, moving them right away zooms or pans instead.
+     */
+    enableRangeSelection?: boolean
+    /**
+     * Whether to enable pinch-to-zoom and two-finger panning along the time axis.
+     * The y-axis is fitted to the visible points, unless `range.y` is given.
+     */
+    enableZoom?: boolean
+    /**
+     * The visible part of the time axis. If given, the zoom is controlled, otherwise
+     * the graph starts fully zoomed out.
+     */
+    visibleRange?: GraphXRange<X>
+    /**
+     * Called whenever the user zooms or pans the visible part of the time axis
+     */
+    onRangeChange?: (range: GraphXRange<X>) => void
+    /**
+     * How the graph animates between datasets and when it is first shown
+     */
+    animation?: GraphAnimationConfig
+    /**
+     * Called once the graph finished animating to the current data
+     */
+    onAnimationEnd?: () => void
+    /**
+     * Shows only the latest `window` of the data. When points are appended (to the
+     * `points` prop, or through `LineGraphRef.append`), the window slides to the left
+     * with the `duration` of the `animation`, and the indicator glides along the line
+     * to the new value.
+     */
+    streaming?: GraphStreamingConfig
+
+    /**
+     * Called for each point while the user is scrubbing/panning through the graph.
+     *
+     * The first argument is the selected point of the first series, the second
+     * argument contains the selected point of every series, keyed by the series' `id`.
+     */
+    onPointSelected?: (
+      point: GraphPoint<X>,
+      seriesPoints: Record<string, GraphPoint<X>>
+    ) => void
+    /**
+     * Called whenever the selection snaps onto another data point of the first
+     * series, e.g. to trigger haptic feedback. Requires `selectionMode` to be `snapToPoint`.
+     */
+    onSnapIndexChange?: (index: number, point: GraphPoint<X>) => void
+    /**
+     * Called whenever the range selected with two fingers changes, e.g. to show
+     * "+12.4% from Mar 3 to Apr 9". Requires `enableRangeSelection`.
+     */
+    onRangeSelected?: (selection: GraphRangeSelection<X>) => void
+    /**
+     * Called when the user taps one of the `annotations`
+     */
+    onAnnotationPress?: (annotation: GraphAnnotation<X>) => void
+    /**
+     * Called once the user starts scrubbing/panning through the graph
+     */
+    onGestureStart?: () => void
+    /**
+     * Called once the user stopped scrubbing/panning through the graph
+     */
+    onGestureEnd?: () => void
+
+    /**
+     * The element that renders the selection dot
+     */
+    SelectionDot?: React.ComponentType<SelectionDotProps> | null
+    /**
+     * The element that renders a tooltip next to the selection dot, e.g. the built-in `SelectionTooltip`.
+     * It follows the selection dot on the UI thread.
+     */
+    SelectionTooltip?: React.ComponentType<SelectionTooltipProps> | null
+
+    /**
+     * The element that gets rendered above the Graph (usually the "max" point/value of the Graph)
+     */
+    TopAxisLabel?: () => React.ReactElement | null
+
+    /**
+     * The element that gets rendered below the Graph (usually the "min" point/value of the Graph)
+     */
+    BottomAxisLabel?: () => React.ReactElement | null
+  }
+
+export type LineGraphProps<X extends GraphX = Date> =
+  | ({ animated: true } & AnimatedLineGraphProps<X>)
+  | ({ animated: false } & StaticLineGraphProps<X>)
+
+/**
+ * Methods to control an animated `LineGraph` from outside, e.g. to highlight a
+ * date when the user taps a row of a transaction list.
+ */
+export interface LineGraphRef<X extends GraphX = Date> {
+  /**
+   * Appends points (sorted, and after the existing ones) to the `points`, or to the
+   * series with the given id (the first one by default), e.g. the latest price of a
+   * live ticker. They are dropped again once the length or last x-value of the `points`
+   * or `series` prop changes, and with a `streaming` window once they are more than
+   * two windows old.
+   */
+  append: (points: GraphPoint<X> | GraphPoint<X>[], seriesId?: string) => void
+  /**
+   * Selects the point of the first series closest to the given x-value (a date
+   * by default), or the visible point at the given `index`, as if the user
+   * scrubbed to it.
+   */
+  selectPoint: (target: X | { index: number }) => void
+  /**
+   * Hides the selection again
+   */
+  clearSelection: () => void
+  /**
+   * Zooms to the given part of the x-axis, or zooms out fully if `undefined`.
+   * Calls `onRangeChange` like the zoom gesture, with the full range when zooming out.
+   */
+  setVisibleRange: (
+    range: GraphXRange<X> | undefined,
+    options?: { animated?: boolean }
+  ) => void
+  /**
+   * Replays the configured `animation.entry`, like when the graph is first shown
+   */
+  replayEntryAnimation: () => void
+  /**
+   * Returns the point of the first series closest to the given x-coordinate
+   * of the canvas, or `undefined` if there are no visible points.
+   */
+  getPointAt: (x: number) => GraphPoint<X> | undefined
+}
@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react'
+import { useDerivedValue } from 'react-native-reanimated'
+import {
+  Group,
+  RoundedRect,
+  Shadow,
+  Skia,
+  Text,
+} from '@shopify/react-native-skia'
+import type { SelectionTooltipProps } from './LineGraphProps'
+
+const TOOLTIP_WIDTH = 96
+const TOOLTIP_HEIGHT = 40
+const TOOLTIP_PADDING = 8
+const TOOLTIP_RADIUS = 6
+const FONT_SIZE = 12
+/**
+ * Distance between the selection dot and the tooltip
+ */
+const TOOLTIP_OFFSET = 12
+
+const pad = (value: number) => {
+  'worklet'
+
+  return value < 10 ? `0${value}` : `${value}`
+}
+
+function defaultFormatValue(value: number): string {
+  'worklet'
+
+  return value.toFixed(2)
+}
+
+function defaultFormatDate(date: Date): string {
+  'worklet'
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+interface Props extends SelectionTooltipProps {
+  /**
+   * Formats the value of the selected point. Has to be a worklet.
+   */
+  formatValue?: (value: number) => string
+  /**
+   * Formats the date of the selected point. Has to be a worklet.
+   */
+  formatDate?: (date: Date) => string
+  /**
+   * Formats the `x` of the selected point on a numeric x-axis. Has to be a worklet.
+   */
+  formatX?: (x: number) => string
+  /**
+   * @default '#ffffff'
+   */
+  backgroundColor?: string
+  /**
+   * The color of the date. The value is drawn in the color of the line.
+   *
+   * @default '#333333'
+   */
+  textColor?: string
+}
+
+/**
+ * A tooltip that shows the value and date (or label) of the selected point
+ * next to the selection dot. It follows the dot on the UI thread and flips to
+ * the other side near the edges of the canvas.
+ */
+export function SelectionTooltip({
+  isActive,
+  color,
+  circleX,
+  circleY,
+  value,
+  date,
+  xType,
+  label,
+  canvasWidth,
+  formatValue = defaultFormatValue,
+  formatDate = defaultFormatDate,
+  formatX = defaultFormatValue,
+  backgroundColor = '#ffffff',
+  textColor = '#333333',
+}: Props): React.ReactElement {
+  const font = useMemo(() => Skia.Font(undefined, FONT_SIZE), [])
+
+  const x = useDerivedValue(() => {
+    const right = circleX.value + TOOLTIP_OFFSET
+    if (right + TOOLTIP_WIDTH <= canvasWidth) return right
+    return Math.max(circleX.value - TOOLTIP_OFFSET - TOOLTIP_WIDTH, 0)
+  })
+  const y = useDerivedValue(() => {
+    const above = circleY.value - TOOLTIP_OFFSET - TOOLTIP_HEIGHT
+    if (above >= 0) return above
+    return circleY.value + TOOLTIP_OFFSET
+  })
+  const textX = useDerivedValue(() => x.value + TOOLTIP_PADDING)
+  const valueY = useDerivedValue(
+    () => y.value + TOOLTIP_PADDING + FONT_SIZE - 2
+  )
+  const dateY = useDerivedValue(() => valueY.value + FONT_SIZE + 2)
+
+  const valueText = useDerivedValue(() => formatValue(value.value))
+  const dateText = useDerivedValue(() => {
+    if (label.value != null) return label.value
+    return xType === 'number'
+      ? formatX(date.value)
+      : formatDate(new Date(date.value))
+  })
+  const opacity = useDerivedValue(() => (isActive.value ? 1 : 0))
+
+  return (
+    <Group opacity={opacity}>
+      <RoundedRect
+        x={x}
+        y={y}
+        width={TOOLTIP_WIDTH}
+        height={TOOLTIP_HEIGHT}
+        r={TOOLTIP_RADIUS}
+        color={backgroundColor}
+      >
+        <Shadow dx={0} dy={1} color="rgba(0,0,0,0.2)" blur={4} />
+      </RoundedRect>
+      <Text x={textX} y={valueY} text={valueText} font={font} color={color} />
+      <Text x={textX} y={dateY} text={dateText} font={font} color={textColor} />
+    </Group>
+  )
+}
@@ -0,0 +1,13 @@
+import React from 'react'
+import { AnimatedStackedAreaGraph } from './AnimatedStackedAreaGraph'
+import type { StackedAreaGraphProps } from './StackedAreaGraphProps'
+import { StaticStackedAreaGraph } from './StaticStackedAreaGraph'
+
+function StackedAreaGraphImpl(
+  props: StackedAreaGraphProps
+): React.ReactElement {
+  if (props.animated) return <AnimatedStackedAreaGraph {...props} />
+  else return <StaticStackedAreaGraph {...props} />
+}
+
+export const StackedAreaGraph = React.memo(StackedAreaGraphImpl)
@@ -0,0 +1,91 @@
+import type { ViewProps } from 'react-native'
+import type { GraphCurve } from './GraphCurves'
+import type { GraphStacking } from './CreateStackedAreaPath'
+import type { GraphPoint, GraphRange, GraphSeries } from './LineGraphProps'
+
+interface BaseStackedAreaGraphProps extends ViewProps {
+  /**
+   * The layers to be stacked on top of each other, from bottom to top.
+   * The n-th point of every series has to be at the same date. Missing values count as `0`.
+   */
+  series: GraphSeries[]
+  /**
+   * How the layers are stacked:
+   *
+   * * `absolute`: The values of the layers are added up
+   * * `percent`: The values are normalized, so the layers always add up to 100%
+   *
+   * @default 'absolute'
+   */
+  stacking?: GraphStacking
+  /**
+   * Range of the graph's x and y-axis. The range must be greater
+   * than the range given by the stacked points.
+   *
+   * If no y-range is given, it always includes `0`, and is `0` - `100` for `percent` stacking.
+   */
+  range?: GraphRange
+  /**
+   * The interpolation used to connect the points of each layer
+   *
+   * @default 'linear'
+   */
+  curve?: GraphCurve
+  /**
+   * The width of the line drawn on top of each layer. A series' own `lineThickness` takes precedence.
+   *
+   * @default 0
+   */
+  lineThickness?: number
+}
+
+export type StaticStackedAreaGraphProps = BaseStackedAreaGraphProps & {
+  /* any static-only stacked area graph props? */
+}
+export type AnimatedStackedAreaGraphProps = BaseStackedAreaGraphProps & {
+  /**
+   * Whether to enable Graph scrubbing/pan gesture.
+   */
+  enablePanGesture?: boolean
+  /**
+   * Delay after which the pan gesture starts
+   */
+  panGestureDelay?: number
+  /**
+   * Horizontal padding applied to graph
+   */
+  horizontalPadding?: number
+  /**
+   * Vertical padding applied to graph
+   */
+  verticalPadding?: number
+  /**
+   * The color of the vertical line at the selected date while the user is panning the graph
+   *
+   * @default '#999999'
+   */
+  selectionLineColor?: string
+
+  /**
+   * Called for each date while the user is scrubbing/panning through the graph.
+   *
+   * The second argument contains the (not stacked) point of every layer at the
+   * selected date, keyed by the series' `id`.
+   */
+  onPointSelected?: (
+    date: Date,
+    layerPoints: Record<string, GraphPoint>
+  ) => void
+  /**
+   * Called once the user starts scrubbing/panning through the graph
+   */
+  onGestureStart?: () => void
+  /**
+   * Called once the user stopped scrubbing/panning through the graph
+   */
+  onGestureEnd?: () => void
+}
+
+export type StackedAreaGraphProps =
+  | ({ animated: true } & AnimatedStackedAreaGraphProps)
+  | ({ animated: false } & StaticStackedAreaGraphProps)
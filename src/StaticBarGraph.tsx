@@ -0,0 +1,61 @@
+import { Canvas, Path } from '@shopify/react-native-skia'
+import React, { useCallback, useMemo, useState } from 'react'
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native'
+import type { StaticBarGraphProps } from './BarGraphProps'
+import { createBarPath, getBarGraphRange, getBarShapes } from './CreateBarPath'
+import { getPointsInRange, GraphPathRange } from './CreateGraphPath'
+
+export function StaticBarGraph({
+  points: allPoints,
+  range,
+  color,
+  barWidthRatio = 0.8,
+  style,
+  ...props
+}: StaticBarGraphProps): React.ReactElement {
+  const [width, setWidth] = useState(0)
+  const [height, setHeight] = useState(0)
+
+  const onLayout = useCallback(
+    ({ nativeEvent: { layout } }: LayoutChangeEvent) => {
+      setWidth(Math.round(layout.width))
+      setHeight(Math.round(layout.height))
+    },
+    []
+  )
+
+  const pathRange: GraphPathRange = useMemo(
+    () => getBarGraphRange(allPoints, range),
+    [allPoints, range]
+  )
+
+  const path = useMemo(
+    () =>
+      createBarPath(
+        getBarShapes({
+          pointsInRange: getPointsInRange(allPoints, pathRange),
+          range: pathRange,
+          canvasHeight: height,
+          canvasWidth: width,
+          horizontalPadding: 0,
+          verticalPadding: 0,
+          barWidthRatio,
+        })
+      ),
+    [allPoints, barWidthRatio, height, pathRange, width]
+  )
+
+  return (
+    <View {...props} style={style} onLayout={onLayout}>
+      <Canvas style={styles.svg}>
+        <Path path={path} color={color} />
+      </Canvas>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  svg: {
+    flex: 1,
+  },
+})
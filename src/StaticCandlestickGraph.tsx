@@ -0,0 +1,76 @@
+import { Canvas, Path } from '@shopify/react-native-skia'
+import React, { useCallback, useMemo, useState } from 'react'
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native'
+import { DEFAULT_DOWN_COLOR, DEFAULT_UP_COLOR } from './utils/colors'
+import type { StaticCandlestickGraphProps } from './CandlestickGraphProps'
+import {
+  createCandlestickPath,
+  getCandleShapes,
+  getCandlestickRange,
+} from './CreateCandlestickPath'
+import { getPointsInRange, GraphPathRange } from './CreateGraphPath'
+
+export function StaticCandlestickGraph({
+  points: allPoints,
+  range,
+  upColor = DEFAULT_UP_COLOR,
+  downColor = DEFAULT_DOWN_COLOR,
+  candleWidthRatio = 0.6,
+  wickThickness = 1,
+  style,
+  ...props
+}: StaticCandlestickGraphProps): React.ReactElement {
+  const [width, setWidth] = useState(0)
+  const [height, setHeight] = useState(0)
+
+  const onLayout = useCallback(
+    ({ nativeEvent: { layout } }: LayoutChangeEvent) => {
+      setWidth(Math.round(layout.width))
+      setHeight(Math.round(layout.height))
+    },
+    []
+  )
+
+  const pathRange: GraphPathRange = useMemo(
+    () => getCandlestickRange(allPoints, range),
+    [allPoints, range]
+  )
+
+  const shapes = useMemo(
+    () =>
+      getCandleShapes({
+        candlesInRange: getPointsInRange(allPoints, pathRange),
+        range: pathRange,
+        canvasHeight: height,
+        canvasWidth: width,
+        horizontalPadding: 0,
+        verticalPadding: 0,
+        candleWidthRatio,
+      }),
+    [allPoints, candleWidthRatio, height, pathRange, width]
+  )
+
+  const upPath = useMemo(
+    () => createCandlestickPath(shapes, true, wickThickness),
+    [shapes, wickThickness]
+  )
+  const downPath = useMemo(
+    () => createCandlestickPath(shapes, false, wickThickness),
+    [shapes, wickThickness]
+  )
+
+  return (
+    <View {...props} style={style} onLayout={onLayout}>
+      <Canvas style={styles.svg}>
+        <Path path={upPath} color={upColor} />
+        <Path path={downPath} color={downColor} />
+      </Canvas>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  svg: {
+    flex: 1,
+  },
+})
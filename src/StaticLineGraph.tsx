@@ -1,24 +1,73 @@
-import { Canvas, LinearGradient, Path, vec } from '@shopify/react-native-skia'
+import {
+  Canvas,
+  DashPathEffect,
+  Group,
+  LinearGradient,
+  Path,
+  rect,
+  SkPath,
+  useComputedValue,
+  vec,
+} from '@shopify/react-native-skia'
 import { getSixDigitHex } from './utils/getSixDigitHex'
 import React, { useCallback, useMemo, useState } from 'react'
 import { View, StyleSheet, LayoutChangeEvent } from 'react-native'
 import {
+  createGraphBandPath,
+  createGraphGapPath,
   createGraphPath,
   getGraphPathRange,
   getPointsInRange,
+  createGraphPathWithGradient,
+  getValueY,
+  getXInRange,
   GraphPathRange,
+  GraphX,
 } from './CreateGraphPath'
 import type { StaticLineGraphProps } from './LineGraphProps'
+import { getGraphSeries, ResolvedGraphSeries } from './utils/getGraphSeries'
+import { DEFAULT_DOWN_COLOR, DEFAULT_UP_COLOR } from './utils/colors'
+import {
+  AxisGridlines,
+  AXIS_LABEL_HEIGHT,
+  XAxisLabels,
+  YAxisLabels,
+} from './GraphAxes'
+import { useAxisTicks } from './hooks/useAxisTicks'
+import { GraphReferenceAreas, GraphReferenceLines } from './GraphReferences'
+import {
+  getAnnotationPositions,
+  GraphAnnotationMarkers,
+} from './GraphAnnotations'
 
 export function StaticLineGraph({
   points: allPoints,
   range,
   color,
+  bandColor,
   lineThickness = 3,
+  gradientFillColors,
+  series: allSeries,
   enableFadeInMask,
+  baseline,
+  positiveColor = DEFAULT_UP_COLOR,
+  negativeColor = DEFAULT_DOWN_COLOR,
+  positiveGradientFillColors,
+  negativeGradientFillColors,
+  curve,
+  gapThreshold,
+  gapStyle = 'break',
+  downsample,
+  xMode = 'time',
+  yScale = 'linear',
+  xAxis,
+  yAxis,
+  referenceLines,
+  referenceAreas,
+  annotations,
   style,
   ...props
-}: StaticLineGraphProps): React.ReactElement {
+}: StaticLineGraphProps<GraphX>): React.ReactElement {
   const [width, setWidth] = useState(0)
   const [height, setHeight] = useState(0)
 
@@ -30,57 +79,320 @@ export function StaticLineGraph({
     []
   )
 
+  const series = useMemo(
+    () =>
+      getGraphSeries({
+        points: allPoints,
+        color,
+        lineThickness,
+        gradientFillColors,
+        bandColor,
+        series: allSeries,
+      }),
+    [allPoints, allSeries, bandColor, color, gradientFillColors, lineThickness]
+  )
+
   const pathRange: GraphPathRange = useMemo(
-    () => getGraphPathRange(allPoints, range),
-    [allPoints, range]
+    () =>
+      getGraphPathRange(
+        series.map((s) => s.points),
+        range,
+        xMode,
+        yScale
+      ),
+    [series, range, xMode, yScale]
   )
 
-  const pointsInRange = useMemo(
-    () => getPointsInRange(allPoints, pathRange),
-    [allPoints, pathRange]
+  const padding = useMemo(
+    () => series.reduce((prev, curr) => Math.max(prev, curr.lineThickness), 0),
+    [series]
   )
+  // leave room for the y-axis labels at the top and bottom edges
+  const verticalPadding =
+    yAxis != null ? Math.max(padding, AXIS_LABEL_HEIGHT / 2) : padding
+
+  const { xTicks, yTicks } = useAxisTicks({
+    range: pathRange,
+    xAxis,
+    yAxis,
+    canvasWidth: width,
+    canvasHeight: height,
+    horizontalPadding: padding,
+    verticalPadding,
+    series,
+  })
+
+  const hasBaselineFill =
+    baseline != null &&
+    (positiveGradientFillColors != null || negativeGradientFillColors != null)
 
-  const path = useMemo(
+  const paths = useMemo(
     () =>
-      createGraphPath({
-        pointsInRange: pointsInRange,
-        range: pathRange,
-        canvasHeight: height,
-        canvasWidth: width,
-        horizontalPadding: lineThickness,
-        verticalPadding: lineThickness,
+      series.map((s) => {
+        const createGraphPathProps = {
+          pointsInRange: getPointsInRange(s.points, pathRange),
+          range: pathRange,
+          canvasHeight: height,
+          canvasWidth: width,
+          horizontalPadding: padding,
+          verticalPadding,
+          curve,
+          gapThreshold,
+          gapStyle,
+          downsampling: downsample,
+          fillBaseline: baseline,
+        }
+
+        const bandPath = s.hasBand
+          ? createGraphBandPath(createGraphPathProps)
+          : undefined
+
+        if (s.gradientFillColors != null || hasBaselineFill) {
+          const { path, gradientPath } =
+            createGraphPathWithGradient(createGraphPathProps)
+
+          return {
+            path,
+            bandPath,
+            gradientPath,
+            gapPath:
+              gapStyle === 'dashed'
+                ? createGraphGapPath(createGraphPathProps)
+                : undefined,
+          }
+        }
+
+        return {
+          path: createGraphPath(createGraphPathProps),
+          bandPath,
+          gradientPath: undefined,
+          gapPath:
+            gapStyle === 'dashed'
+              ? createGraphGapPath(createGraphPathProps)
+              : undefined,
+        }
       }),
-    [height, lineThickness, pathRange, pointsInRange, width]
+    [
+      baseline,
+      curve,
+      downsample,
+      gapStyle,
+      gapThreshold,
+      hasBaselineFill,
+      height,
+      padding,
+      pathRange,
+      series,
+      verticalPadding,
+      width,
+    ]
   )
 
-  const gradientColors = useMemo(
-    () => [`${getSixDigitHex(color)}00`, `${getSixDigitHex(color)}ff`],
-    [color]
-  )
+  const annotationPositions = useComputedValue(() => {
+    if (annotations == null) return []
+
+    const drawingWidth = width - 2 * padding
+    return getAnnotationPositions(
+      annotations,
+      (x) => getXInRange(drawingWidth, x, pathRange.x) + padding,
+      (seriesId = series[0]?.id) => {
+        const index = series.findIndex((s) => s.id === seriesId)
+        return paths[index]?.path.toCmds()
+      }
+    )
+  }, [annotations, padding, pathRange.x, paths, series, width])
+
   const gradientFrom = useMemo(() => vec(0, 0), [])
   const gradientTo = useMemo(() => vec(width * 0.15, 0), [width])
 
+  const baselineY =
+    baseline != null
+      ? getValueY(baseline, pathRange.y, height, verticalPadding)
+      : height
+  const positiveClip = useMemo(
+    () => rect(0, 0, width, baselineY),
+    [baselineY, width]
+  )
+  const negativeClip = useMemo(
+    () => rect(0, baselineY, width, height - baselineY),
+    [baselineY, height, width]
+  )
+
+  const renderStroke = (
+    s: ResolvedGraphSeries,
+    path: SkPath,
+    strokeColor: string
+  ) => (
+    <Path
+      path={path}
+      strokeWidth={s.lineThickness}
+      color={enableFadeInMask ? undefined : strokeColor}
+      style="stroke"
+      strokeJoin="round"
+      strokeCap="round"
+    >
+      {enableFadeInMask && (
+        <LinearGradient
+          start={gradientFrom}
+          end={gradientTo}
+          colors={[
+            `${getSixDigitHex(strokeColor)}00`,
+            `${getSixDigitHex(strokeColor)}ff`,
+          ]}
+        />
+      )}
+    </Path>
+  )
+
+  const referencesProps = {
+    range: pathRange,
+    width,
+    height,
+    horizontalPadding: padding,
+    verticalPadding,
+    animated: false,
+  }
+  const isMeasured = width > 0 && height > 0
+
   return (
-    <View {...props} style={style} onLayout={onLayout}>
-      {/* Fix for react-native-skia's incorrect type declarations */}
-      <Canvas style={styles.svg}>
-        <Path
-          path={path}
-          strokeWidth={lineThickness}
-          color={enableFadeInMask ? undefined : color}
-          style="stroke"
-          strokeJoin="round"
-          strokeCap="round"
-        >
-          {enableFadeInMask && (
-            <LinearGradient
-              start={gradientFrom}
-              end={gradientTo}
-              colors={gradientColors}
-            />
+    <View {...props} style={style}>
+      <View style={styles.row}>
+        {yAxis != null && yAxis.position === 'left' && (
+          <YAxisLabels ticks={yTicks} config={yAxis} />
+        )}
+
+        <View style={styles.container}>
+          <View style={styles.container} onLayout={onLayout}>
+            <Canvas style={styles.svg}>
+              <AxisGridlines
+                xTicks={xTicks}
+                yTicks={yTicks}
+                xAxis={xAxis}
+                yAxis={yAxis}
+                width={width}
+                height={height}
+              />
+
+              {isMeasured && referenceAreas != null && (
+                <GraphReferenceAreas
+                  areas={referenceAreas}
+                  {...referencesProps}
+                />
+              )}
+
+              {series.map((s, i) => {
+                const bandPath = paths[i]!.bandPath
+                if (bandPath == null) return null
+
+                return (
+                  <Path
+                    key={s.id}
+                    path={bandPath}
+                    color={s.bandColor ?? `${getSixDigitHex(s.color)}33`}
+                  />
+                )
+              })}
+
+              {series.map((s, i) => {
+                const { path, gradientPath } = paths[i]!
+                if (baseline == null) {
+                  return (
+                    <Group key={s.id}>
+                      {renderStroke(s, path, s.color)}
+                      {gradientPath != null && s.gradientFillColors != null && (
+                        <Path path={gradientPath}>
+                          <LinearGradient
+                            start={vec(0, 0)}
+                            end={vec(0, height)}
+                            colors={s.gradientFillColors}
+                          />
+                        </Path>
+                      )}
+                    </Group>
+                  )
+                }
+
+                return (
+                  <Group key={s.id}>
+                    {gradientPath != null &&
+                      positiveGradientFillColors != null && (
+                        <Group clip={positiveClip}>
+                          <Path path={gradientPath}>
+                            <LinearGradient
+                              start={vec(0, 0)}
+                              end={vec(0, baselineY)}
+                              colors={positiveGradientFillColors}
+                            />
+                          </Path>
+                        </Group>
+                      )}
+                    {gradientPath != null &&
+                      negativeGradientFillColors != null && (
+                        <Group clip={negativeClip}>
+                          <Path path={gradientPath}>
+                            <LinearGradient
+                              start={vec(0, baselineY)}
+                              end={vec(0, height)}
+                              colors={negativeGradientFillColors}
+                            />
+                          </Path>
+                        </Group>
+                      )}
+                    <Group clip={positiveClip}>
+                      {renderStroke(s, path, positiveColor)}
+                    </Group>
+                    <Group clip={negativeClip}>
+                      {renderStroke(s, path, negativeColor)}
+                    </Group>
+                  </Group>
+                )
+              })}
+
+              {series.map((s, i) => {
+                const gapPath = paths[i]!.gapPath
+                if (gapPath == null) return null
+
+                return (
+                  <Path
+                    key={s.id}
+                    path={gapPath}
+                    strokeWidth={s.lineThickness / 2}
+                    style="stroke"
+                    strokeCap="round"
+                    color={s.color}
+                  >
+                    <DashPathEffect
+                      intervals={[s.lineThickness * 2, s.lineThickness * 2]}
+                    />
+                  </Path>
+                )
+              })}
+
+              {isMeasured && referenceLines != null && (
+                <GraphReferenceLines
+                  lines={referenceLines}
+                  {...referencesProps}
+                />
+              )}
+
+              {annotations != null && (
+                <GraphAnnotationMarkers
+                  annotations={annotations}
+                  positions={annotationPositions}
+                />
+              )}
+            </Canvas>
+          </View>
+
+          {xAxis != null && (
+            <XAxisLabels ticks={xTicks} config={xAxis} width={width} />
           )}
-        </Path>
-      </Canvas>
+        </View>
+
+        {yAxis != null && yAxis.position !== 'left' && (
+          <YAxisLabels ticks={yTicks} config={yAxis} />
+        )}
+      </View>
     </View>
   )
 }
@@ -89,4 +401,11 @@ const styles = StyleSheet.create({
   svg: {
     flex: 1,
   },
+  container: {
+    flex: 1,
+  },
+  row: {
+    flex: 1,
+    flexDirection: 'row',
+  },
 })
@@ -0,0 +1,108 @@
+import {
+  Canvas,
+  Group,
+  LinearGradient,
+  Path,
+  vec,
+} from '@shopify/react-native-skia'
+import React, { useCallback, useMemo, useState } from 'react'
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native'
+import type { StaticStackedAreaGraphProps } from './StackedAreaGraphProps'
+import {
+  createStackedAreaPaths,
+  getStackedAreaRange,
+  getStackedSeries,
+} from './CreateStackedAreaPath'
+import type { GraphPathRange } from './CreateGraphPath'
+
+export function StaticStackedAreaGraph({
+  series,
+  stacking = 'absolute',
+  range,
+  curve = 'linear',
+  lineThickness = 0,
+  style,
+  ...props
+}: StaticStackedAreaGraphProps): React.ReactElement {
+  const [width, setWidth] = useState(0)
+  const [height, setHeight] = useState(0)
+
+  const onLayout = useCallback(
+    ({ nativeEvent: { layout } }: LayoutChangeEvent) => {
+      setWidth(Math.round(layout.width))
+      setHeight(Math.round(layout.height))
+    },
+    []
+  )
+
+  const stackedSeries = useMemo(
+    () => getStackedSeries(series, stacking),
+    [series, stacking]
+  )
+
+  const pathRange: GraphPathRange = useMemo(
+    () => getStackedAreaRange(stackedSeries, stacking, range),
+    [range, stackedSeries, stacking]
+  )
+
+  const paths = useMemo(
+    () =>
+      createStackedAreaPaths({
+        stackedSeries,
+        range: pathRange,
+        canvasHeight: height,
+        canvasWidth: width,
+        horizontalPadding: 0,
+        verticalPadding: 0,
+        curve,
+      }),
+    [curve, height, pathRange, stackedSeries, width]
+  )
+
+  return (
+    <View {...props} style={style} onLayout={onLayout}>
+      <Canvas style={styles.svg}>
+        {/* the fill of each layer reaches down to the bottom, so the top layer is drawn first */}
+        {series
+          .map((s, i) => {
+            const { path, gradientPath } = paths[i]!
+            const thickness = s.lineThickness ?? lineThickness
+
+            return (
+              <Group key={s.id}>
+                <Path
+                  path={gradientPath}
+                  color={s.gradientFillColors == null ? s.color : undefined}
+                >
+                  {s.gradientFillColors != null && (
+                    <LinearGradient
+                      start={vec(0, 0)}
+                      end={vec(0, height)}
+                      colors={s.gradientFillColors}
+                    />
+                  )}
+                </Path>
+                {thickness > 0 && (
+                  <Path
+                    path={path}
+                    color={s.color}
+                    strokeWidth={thickness}
+                    style="stroke"
+                    strokeJoin="round"
+                    strokeCap="round"
+                  />
+                )}
+              </Group>
+            )
+          })
+          .reverse()}
+      </Canvas>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  svg: {
+    flex: 1,
+  },
+})
@@ -0,0 +1,189 @@
+import { useMemo } from 'react'
+import {
+  createX,
+  getPointXValue,
+  getXInRange,
+  getXValue,
+  getScaledValue,
+  getUnscaledValue,
+  getYInRange,
+  GraphPathRange,
+  GraphPathXRange,
+  GraphPathYRange,
+  GraphX,
+} from '../CreateGraphPath'
+import type {
+  GraphSeries,
+  GraphXAxisConfig,
+  GraphYAxisConfig,
+} from '../LineGraphProps'
+import {
+  formatDateLabel,
+  formatValueLabel,
+  getLogAxisTicks,
+  getXAxisTicks,
+  getYAxisTicks,
+} from '../utils/getAxisTicks'
+import { getNearestIndex } from '../utils/getNearestIndex'
+
+export interface AxisTick {
+  /**
+   * The position of the tick on the canvas (x for the x-axis, y for the y-axis)
+   */
+  position: number
+  label: string
+}
+
+interface Config {
+  range: GraphPathRange
+  xAxis?: GraphXAxisConfig<GraphX>
+  yAxis?: GraphYAxisConfig
+  canvasWidth: number
+  canvasHeight: number
+  horizontalPadding: number
+  verticalPadding: number
+  /**
+   * The series of the graph, whose point labels are shown on an ordinal x-axis
+   */
+  series?: GraphSeries<GraphX>[]
+}
+
+interface Result {
+  xTicks: AxisTick[]
+  yTicks: AxisTick[]
+}
+
+/**
+ * On an ordinal x-axis, periods without data are compressed, so the ticks are
+ * moved onto the closest x-values that actually have data.
+ */
+function getOrdinalTicks(ticks: number[], ordinalValues?: number[]): number[] {
+  if (ordinalValues == null) return ticks
+
+  const values = ticks
+    .map((tick) => ordinalValues[getNearestIndex(ordinalValues, tick)])
+    .filter((value): value is number => value != null)
+  return values.filter((value, i) => i === 0 || value !== values[i - 1])
+}
+
+/**
+ * Returns roughly `count` evenly spaced x-values of the given ordinal x-axis,
+ * inside the range.
+ */
+function getEvenlySpacedOrdinalTicks(
+  range: GraphPathXRange,
+  ordinalValues: number[],
+  count: number
+): number[] {
+  const min = getXValue(range.min)
+  const max = getXValue(range.max)
+  const visibleValues = ordinalValues.filter(
+    (value) => value >= min && value <= max
+  )
+  const step = Math.max(Math.ceil(visibleValues.length / count), 1)
+  return visibleValues.filter((_, i) => i % step === 0)
+}
+
+/**
+ * Returns the ticks of the x-axis (as x-values, see `getXValue`) and a
+ * formatter for their default labels.
+ */
+function getXTicks(
+  range: GraphPathXRange,
+  count: number
+): { ticks: number[]; formatLabel: (x: GraphX) => string } {
+  const { min, max } = range
+  if (typeof min === 'number' || typeof max === 'number') {
+    return {
+      ticks: getYAxisTicks({ min: getXValue(min), max: getXValue(max) }, count),
+      formatLabel: (x) => formatValueLabel(getXValue(x)),
+    }
+  }
+
+  const { ticks, unit } = getXAxisTicks({ min, max }, count)
+  return {
+    ticks: ticks.map((tick) => tick.getTime()),
+    formatLabel: (x) => formatDateLabel(new Date(getXValue(x)), unit),
+  }
+}
+
+/**
+ * Returns the ticks of the y-axis, placed on "nice" values of its scale.
+ */
+function getYTicks(range: GraphPathYRange, count: number): number[] {
+  const { scale = 'linear' } = range
+  if (scale === 'linear') return getYAxisTicks(range, count)
+  if (scale === 'log') return getLogAxisTicks(range, count)
+
+  // evenly spaced on the custom scale
+  return getYAxisTicks(
+    {
+      min: getScaledValue(range.min, scale),
+      max: getScaledValue(range.max, scale),
+    },
+    count
+  ).map((tick) => getUnscaledValue(tick, scale))
+}
+
+export function useAxisTicks({
+  range,
+  xAxis,
+  yAxis,
+  canvasWidth: width,
+  canvasHeight: height,
+  horizontalPadding,
+  verticalPadding,
+  series,
+}: Config): Result {
+  const pointLabels = useMemo(() => {
+    const labels = new Map<number, string>()
+    series?.forEach((s) =>
+      s.points.forEach((point) => {
+        if (point.label != null) labels.set(getPointXValue(point), point.label)
+      })
+    )
+    return labels
+  }, [series])
+
+  const xTicks = useMemo(() => {
+    if (xAxis == null || width < 1) return []
+
+    const drawingWidth = width - 2 * horizontalPadding
+    const count = xAxis.tickCount ?? 5
+    const { ordinalValues } = range.x
+    const { ticks, formatLabel } = getXTicks(range.x, count)
+
+    const getTick = (value: number, pointLabel?: string): AxisTick => {
+      const x = createX(value, range.x.min)
+      return {
+        position: getXInRange(drawingWidth, x, range.x) + horizontalPadding,
+        label: pointLabel ?? xAxis.formatLabel?.(x) ?? formatLabel(x),
+      }
+    }
+
+    if (ordinalValues != null && pointLabels.size > 0) {
+      // categories have no meaningful x-values, so every n-th category is labeled
+      return getEvenlySpacedOrdinalTicks(range.x, ordinalValues, count).map(
+        (value) => getTick(value, pointLabels.get(value))
+      )
+    }
+    return getOrdinalTicks(ticks, ordinalValues).map((value) => getTick(value))
+  }, [horizontalPadding, pointLabels, range.x, width, xAxis])
+
+  const yTicks = useMemo(() => {
+    if (yAxis == null || height < 1) return []
+
+    const drawingHeight = height - 2 * verticalPadding
+    const ticks = getYTicks(range.y, yAxis.tickCount ?? 5)
+
+    return ticks.map((value) => ({
+      position:
+        drawingHeight -
+        getYInRange(drawingHeight, value, range.y) +
+        verticalPadding,
+      label: yAxis.formatLabel?.(value) ?? formatValueLabel(value),
+    }))
+  }, [height, range.y, verticalPadding, yAxis])
+
+  return useMemo(() => ({ xTicks, yTicks }), [xTicks, yTicks])
+}
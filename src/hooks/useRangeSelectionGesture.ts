@@ -0,0 +1,70 @@
+import { useMemo } from 'react'
+import { Gesture, PanGesture } from 'react-native-gesture-handler'
+import Reanimated, { useSharedValue } from 'react-native-reanimated'
+
+interface Config {
+  enabled: boolean
+  /**
+   * If given, the fingers have to rest on the graph for this many milliseconds
+   * before the selection starts, so moving them right away can zoom instead
+   */
+  holdDuration?: number
+}
+
+interface Result {
+  /**
+   * The x-coordinate of the left finger
+   */
+  start: Reanimated.SharedValue<number>
+  /**
+   * The x-coordinate of the right finger
+   */
+  end: Reanimated.SharedValue<number>
+  isActive: Reanimated.SharedValue<boolean>
+  gesture: PanGesture
+}
+
+/**
+ * A two-finger gesture that selects the range between the fingers.
+ */
+export function useRangeSelectionGesture({
+  enabled,
+  holdDuration,
+}: Config): Result {
+  const start = useSharedValue(0)
+  const end = useSharedValue(0)
+  const isRangeSelectionActive = useSharedValue(false)
+
+  const rangeSelectionGesture = useMemo(() => {
+    const gesture = Gesture.Pan()
+      .enabled(enabled)
+      .minPointers(2)
+      .onTouchesMove((e) => {
+        const [first, second] = e.allTouches
+        if (first == null || second == null) return
+
+        start.value = Math.min(first.x, second.x)
+        end.value = Math.max(first.x, second.x)
+      })
+      .onStart(() => {
+        isRangeSelectionActive.value = true
+      })
+      .onEnd(() => {
+        isRangeSelectionActive.value = false
+      })
+
+    return holdDuration != null
+      ? gesture.activateAfterLongPress(holdDuration)
+      : gesture
+  }, [enabled, end, holdDuration, isRangeSelectionActive, start])
+
+  return useMemo(
+    () => ({
+      gesture: rangeSelectionGesture,
+      isActive: isRangeSelectionActive,
+      start: start,
+      end: end,
+    }),
+    [end, isRangeSelectionActive, rangeSelectionGesture, start]
+  )
+}
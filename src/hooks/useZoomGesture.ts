@@ -0,0 +1,141 @@
+import { useEffect, useMemo } from 'react'
+import { Gesture, SimultaneousGesture } from 'react-native-gesture-handler'
+import Reanimated, { runOnJS, useSharedValue } from 'react-native-reanimated'
+
+/**
+ * The visible range can be at most this many times smaller than the data's range
+ */
+const MAX_ZOOM = 100
+
+export interface NumericRange {
+  min: number
+  max: number
+}
+
+interface Config {
+  enabled: boolean
+  /**
+   * The range of all data, the visible range gets clamped to it. Ranges are in
+   * units that are linear along the x-axis, e.g. milliseconds on a time axis or
+   * point indices on an ordinal axis.
+   */
+  bounds: NumericRange
+  /**
+   * The currently visible range, or `undefined` to show all data
+   */
+  visibleRange: NumericRange | undefined
+  /**
+   * Offset of the drawing area inside the view the gesture is attached to
+   */
+  offsetX: number
+  /**
+   * Width of the drawing area
+   */
+  drawingWidth: number
+  /**
+   * Called on the JS thread whenever the visible range changes through the gesture
+   */
+  onRangeChange: (min: number, max: number) => void
+}
+
+interface Result {
+  isActive: Reanimated.SharedValue<boolean>
+  gesture: SimultaneousGesture
+}
+
+export function useZoomGesture({
+  enabled,
+  bounds,
+  visibleRange,
+  offsetX,
+  drawingWidth,
+  onRangeChange,
+}: Config): Result {
+  const range = useSharedValue<NumericRange | undefined>(undefined)
+  const activeGestures = useSharedValue(0)
+  const isZoomGestureActive = useSharedValue(false)
+
+  useEffect(() => {
+    // while zooming, the gesture is the source of truth and the JS state lags behind
+    if (!isZoomGestureActive.value) range.value = visibleRange
+  }, [isZoomGestureActive, range, visibleRange])
+
+  const zoomGesture = useMemo(() => {
+    const setRange = (min: number, span: number) => {
+      'worklet'
+
+      const boundsSpan = bounds.max - bounds.min
+      const nextSpan = Math.min(
+        Math.max(span, boundsSpan / MAX_ZOOM),
+        boundsSpan
+      )
+      const nextMin = Math.min(Math.max(min, bounds.min), bounds.max - nextSpan)
+
+      range.value = { min: nextMin, max: nextMin + nextSpan }
+      runOnJS(onRangeChange)(nextMin, nextMin + nextSpan)
+    }
+
+    const onStart = () => {
+      'worklet'
+
+      activeGestures.value += 1
+      isZoomGestureActive.value = true
+    }
+    const onEnd = () => {
+      'worklet'
+
+      activeGestures.value = Math.max(activeGestures.value - 1, 0)
+      isZoomGestureActive.value = activeGestures.value > 0
+    }
+
+    // Both gestures apply their changes incrementally, so they can run simultaneously
+    const pinchGesture = Gesture.Pinch()
+      .enabled(enabled)
+      .onStart(onStart)
+      .onChange((e) => {
+        const current = range.value ?? bounds
+        const span = current.max - current.min
+        // keep the point between the fingers at the same position
+        const focalRatio = Math.min(
+          Math.max((e.focalX - offsetX) / drawingWidth, 0),
+          1
+        )
+        const focalPoint = current.min + span * focalRatio
+        const nextSpan = span / e.scaleChange
+
+        setRange(focalPoint - nextSpan * focalRatio, nextSpan)
+      })
+      .onEnd(onEnd)
+
+    const twoFingerPanGesture = Gesture.Pan()
+      .enabled(enabled)
+      .minPointers(2)
+      .onStart(onStart)
+      .onChange((e) => {
+        const current = range.value ?? bounds
+        const span = current.max - current.min
+
+        setRange(current.min - (e.changeX / drawingWidth) * span, span)
+      })
+      .onEnd(onEnd)
+
+    return Gesture.Simultaneous(pinchGesture, twoFingerPanGesture)
+  }, [
+    activeGestures,
+    bounds,
+    drawingWidth,
+    enabled,
+    isZoomGestureActive,
+    offsetX,
+    onRangeChange,
+    range,
+  ])
+
+  return useMemo(
+    () => ({
+      gesture: zoomGesture,
+      isActive: isZoomGestureActive,
+    }),
+    [isZoomGestureActive, zoomGesture]
+  )
+}
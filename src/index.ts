@@ -1,7 +1,43 @@
 export * from './SelectionDot'
+export * from './SelectionTooltip'
 export * from './LineGraph'
+export * from './CandlestickGraph'
+export * from './BarGraph'
+export * from './StackedAreaGraph'
+export { getCategoryPoints } from './utils/getCategoryPoints'
 export type {
   GraphPoint,
+  GraphSeries,
+  GraphCategory,
+  GraphXField,
+  GraphAxisConfig,
+  GraphXAxisConfig,
+  GraphYAxisConfig,
+  GraphReferenceLine,
+  GraphReferenceArea,
+  GraphAnnotation,
+  GraphCrosshairConfig,
+  GraphAnimationConfig,
+  GraphStreamingConfig,
+  GraphRangeSelection,
   LineGraphProps,
+  LineGraphRef,
   SelectionDotProps,
+  SelectionTooltipProps,
 } from './LineGraphProps'
+export type {
+  CandlePoint,
+  CandlestickGraphProps,
+} from './CandlestickGraphProps'
+export type { BarGraphProps } from './BarGraphProps'
+export type { StackedAreaGraphProps } from './StackedAreaGraphProps'
+export type { GraphStacking } from './CreateStackedAreaPath'
+export type { GraphCurve } from './GraphCurves'
+export type { GraphDownsampling } from './GraphDownsampling'
+export type {
+  GraphGapStyle,
+  GraphX,
+  GraphXMode,
+  GraphXRange,
+  GraphYScale,
+} from './CreateGraphPath'
@@ -0,0 +1,8 @@
+/**
+ * The default color of rising values, e.g. candles that closed above their open price
+ */
+export const DEFAULT_UP_COLOR = '#26a69a'
+/**
+ * The default color of falling values, e.g. candles that closed below their open price
+ */
+export const DEFAULT_DOWN_COLOR = '#ef5350'
@@ -0,0 +1,269 @@
+import type { GraphXRange, GraphYRange } from '../CreateGraphPath'
+
+export type TimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'month' | 'year'
+
+const TIME_UNITS: TimeUnit[] = [
+  'second',
+  'minute',
+  'hour',
+  'day',
+  'month',
+  'year',
+]
+
+interface TimeInterval {
+  unit: TimeUnit
+  /**
+   * Amount of units per tick
+   */
+  step: number
+  /**
+   * Approximate duration of the interval in milliseconds
+   */
+  duration: number
+}
+
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+const MONTH = 30 * DAY
+const YEAR = 365 * DAY
+
+const TIME_INTERVALS: TimeInterval[] = [
+  { unit: 'second', step: 1, duration: SECOND },
+  { unit: 'second', step: 5, duration: 5 * SECOND },
+  { unit: 'second', step: 15, duration: 15 * SECOND },
+  { unit: 'second', step: 30, duration: 30 * SECOND },
+  { unit: 'minute', step: 1, duration: MINUTE },
+  { unit: 'minute', step: 5, duration: 5 * MINUTE },
+  { unit: 'minute', step: 15, duration: 15 * MINUTE },
+  { unit: 'minute', step: 30, duration: 30 * MINUTE },
+  { unit: 'hour', step: 1, duration: HOUR },
+  { unit: 'hour', step: 3, duration: 3 * HOUR },
+  { unit: 'hour', step: 6, duration: 6 * HOUR },
+  { unit: 'hour', step: 12, duration: 12 * HOUR },
+  { unit: 'day', step: 1, duration: DAY },
+  { unit: 'day', step: 2, duration: 2 * DAY },
+  { unit: 'day', step: 7, duration: 7 * DAY },
+  { unit: 'day', step: 14, duration: 14 * DAY },
+  { unit: 'month', step: 1, duration: MONTH },
+  { unit: 'month', step: 3, duration: 3 * MONTH },
+  { unit: 'month', step: 6, duration: 6 * MONTH },
+  { unit: 'year', step: 1, duration: YEAR },
+]
+
+const MONTH_NAMES = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+]
+
+/**
+ * Returns a "nice" step (1, 2 or 5 times a power of ten) that divides
+ * the given span into roughly `count` steps.
+ */
+function getNiceStep(span: number, count: number): number {
+  const roughStep = span / Math.max(count, 1)
+  const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)))
+  const normalizedStep = roughStep / magnitude
+
+  if (normalizedStep < 1.5) return magnitude
+  if (normalizedStep < 3) return 2 * magnitude
+  if (normalizedStep < 7) return 5 * magnitude
+  return 10 * magnitude
+}
+
+/**
+ * Returns roughly `count` ticks on "nice" numbers (multiples of 1, 2 or 5
+ * times a power of ten) inside the given y-range.
+ */
+export function getYAxisTicks(range: GraphYRange, count: number): number[] {
+  const span = range.max - range.min
+  if (!isFinite(span) || span <= 0)
+    return isFinite(range.min) ? [range.min] : []
+
+  const step = getNiceStep(span, count)
+  // avoid floating point errors such as 0.30000000000000004
+  const decimals = Math.max(-Math.floor(Math.log10(step)), 0)
+
+  const ticks: number[] = []
+  for (
+    let value = Math.ceil(range.min / step) * step;
+    value <= range.max + step * 1e-6;
+    value += step
+  ) {
+    ticks.push(Number(value.toFixed(decimals)))
+  }
+  return ticks
+}
+
+/**
+ * Returns ticks inside the given (positive) y-range of a logarithmic axis:
+ * multiples of 1, 2 and 5 times a power of ten, or only every n-th power of
+ * ten if the range spans many powers of ten.
+ */
+export function getLogAxisTicks(range: GraphYRange, count: number): number[] {
+  if (range.min <= 0 || !(range.max > range.min)) {
+    return getYAxisTicks(range, count)
+  }
+
+  const minExponent = Math.floor(Math.log10(range.min))
+  const maxExponent = Math.ceil(Math.log10(range.max))
+  const decades = maxExponent - minExponent
+  const mantissas = decades <= count / 2 ? [1, 2, 5] : [1]
+  const exponentStep =
+    mantissas.length > 1 ? 1 : Math.max(Math.ceil(decades / count), 1)
+
+  const ticks: number[] = []
+  for (
+    let exponent = minExponent;
+    exponent <= maxExponent;
+    exponent += exponentStep
+  ) {
+    for (const mantissa of mantissas) {
+      // avoid floating point errors such as 0.30000000000000004
+      const value = Number((mantissa * 10 ** exponent).toPrecision(12))
+      if (value >= range.min && value <= range.max) ticks.push(value)
+    }
+  }
+
+  // inside of a single power of ten, the axis is almost linear
+  return ticks.length >= 2 ? ticks : getYAxisTicks(range, count)
+}
+
+function addUnits(date: Date, unit: TimeUnit, amount: number): Date {
+  const next = new Date(date.getTime())
+  switch (unit) {
+    case 'second':
+      next.setSeconds(next.getSeconds() + amount)
+      break
+    case 'minute':
+      next.setMinutes(next.getMinutes() + amount)
+      break
+    case 'hour':
+      next.setHours(next.getHours() + amount)
+      break
+    case 'day':
+      next.setDate(next.getDate() + amount)
+      break
+    case 'month':
+      next.setMonth(next.getMonth() + amount)
+      break
+    case 'year':
+      next.setFullYear(next.getFullYear() + amount)
+      break
+  }
+  return next
+}
+
+/**
+ * Returns the first date at or after `min` that is aligned to the interval
+ * in local time, e.g. the next full quarter hour or the first of the next month.
+ */
+function getFirstTick(min: Date, { unit, step }: TimeInterval): Date {
+  const date = new Date(min.getTime())
+
+  // truncate everything smaller than the unit
+  const unitIndex = TIME_UNITS.indexOf(unit)
+  date.setMilliseconds(0)
+  if (unitIndex > 0) date.setSeconds(0)
+  if (unitIndex > 1) date.setMinutes(0)
+  if (unitIndex > 2) date.setHours(0)
+  if (unitIndex > 3) date.setDate(1)
+  if (unitIndex > 4) date.setMonth(0)
+
+  // align to multiples of the step (e.g. every 15 minutes, every 3 months)
+  switch (unit) {
+    case 'second':
+      date.setSeconds(Math.floor(date.getSeconds() / step) * step)
+      break
+    case 'minute':
+      date.setMinutes(Math.floor(date.getMinutes() / step) * step)
+      break
+    case 'hour':
+      date.setHours(Math.floor(date.getHours() / step) * step)
+      break
+    case 'month':
+      date.setMonth(Math.floor(date.getMonth() / step) * step)
+      break
+    case 'day':
+    case 'year':
+      break
+  }
+
+  let tick = date
+  while (tick < min) tick = addUnits(tick, unit, step)
+  return tick
+}
+
+/**
+ * Returns roughly `count` ticks inside the given x-range, aligned to
+ * calendar units (e.g. full hours, days or months), and the unit of the ticks.
+ */
+export function getXAxisTicks(
+  range: GraphXRange,
+  count: number
+): { ticks: Date[]; unit: TimeUnit } {
+  const span = range.max.getTime() - range.min.getTime()
+  if (!isFinite(span) || span <= 0) return { ticks: [range.min], unit: 'day' }
+
+  const interval: TimeInterval = TIME_INTERVALS.find(
+    (i) => span / i.duration <= count
+  ) ?? {
+    unit: 'year',
+    step: Math.max(getNiceStep(span / YEAR, count), 1),
+    duration: YEAR,
+  }
+
+  const ticks: Date[] = []
+  for (
+    let tick = getFirstTick(range.min, interval);
+    tick <= range.max;
+    tick = addUnits(tick, interval.unit, interval.step)
+  ) {
+    ticks.push(tick)
+  }
+  return { ticks: ticks, unit: interval.unit }
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+/**
+ * Default label formatter for x-axis ticks of the given unit.
+ */
+export function formatDateLabel(date: Date, unit: TimeUnit): string {
+  switch (unit) {
+    case 'second':
+      return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+        date.getSeconds()
+      )}`
+    case 'minute':
+    case 'hour':
+      return `${pad(date.getHours())}:${pad(date.getMinutes())}`
+    case 'day':
+      return `${MONTH_NAMES[date.getMonth()]} ${date.getDate()}`
+    case 'month':
+      return date.getMonth() === 0
+        ? `${date.getFullYear()}`
+        : `${MONTH_NAMES[date.getMonth()]}`
+    case 'year':
+      return `${date.getFullYear()}`
+  }
+}
+
+/**
+ * Default label formatter for y-axis ticks.
+ */
+export function formatValueLabel(value: number): string {
+  return `${Number(value.toPrecision(12))}`
+}
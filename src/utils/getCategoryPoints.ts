@@ -0,0 +1,16 @@
+import type { GraphCategory, GraphPoint } from '../LineGraphProps'
+
+/**
+ * Converts per-category (or per-session) data, which has no x-values, to
+ * points for a numeric graph with `xMode` `index`. The `x` of each point is
+ * its index, so `range.x` and `visibleRange` address the categories by index,
+ * and the x-axis and the `SelectionTooltip` show the labels of the categories.
+ */
+export function getCategoryPoints(
+  categories: GraphCategory[]
+): GraphPoint<number>[] {
+  return categories.map((category, i) => ({
+    ...category,
+    x: i,
+  }))
+}
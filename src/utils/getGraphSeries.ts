@@ -0,0 +1,64 @@
+import type { Color } from '@shopify/react-native-skia'
+import type { GraphX } from '../CreateGraphPath'
+import type { GraphPoint, GraphSeries } from '../LineGraphProps'
+
+export const DEFAULT_SERIES_ID = 'default'
+
+export type ResolvedGraphSeries = GraphSeries<GraphX> & {
+  lineThickness: number
+  /**
+   * Whether any point of the series has a `low` and `high` value
+   */
+  hasBand: boolean
+}
+
+const hasBand = (points: GraphPoint<GraphX>[]) =>
+  points.some((point) => point.low != null && point.high != null)
+
+interface Config {
+  points?: GraphPoint<GraphX>[]
+  color?: string
+  lineThickness: number
+  gradientFillColors?: Color[]
+  bandColor?: Color
+  series?: GraphSeries<GraphX>[]
+}
+
+/**
+ * Normalizes the single-line props (`points`, `color`, ...) and the `series` prop
+ * into a list of series, so the graph renderers only have to deal with series.
+ */
+export function getGraphSeries({
+  points,
+  color,
+  lineThickness,
+  gradientFillColors,
+  bandColor,
+  series,
+}: Config): ResolvedGraphSeries[] {
+  if (series != null) {
+    return series.map((s) => ({
+      ...s,
+      lineThickness: s.lineThickness ?? lineThickness,
+      hasBand: hasBand(s.points),
+    }))
+  }
+
+  if (points == null || color == null) {
+    throw new Error(
+      'react-native-graph: Either `points` and `color`, or `series` have to be passed to the graph!'
+    )
+  }
+
+  return [
+    {
+      id: DEFAULT_SERIES_ID,
+      points: points,
+      color: color,
+      lineThickness: lineThickness,
+      gradientFillColors: gradientFillColors,
+      bandColor: bandColor,
+      hasBand: hasBand(points),
+    },
+  ]
+}
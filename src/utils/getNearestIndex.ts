@@ -0,0 +1,24 @@
+/**
+ * Returns the index of the value in `sortedValues` that is closest to `value`
+ * using a binary search, or -1 if `sortedValues` is empty.
+ */
+export function getNearestIndex(sortedValues: number[], value: number): number {
+  'worklet'
+
+  if (sortedValues.length < 1) return -1
+
+  let low = 0
+  let high = sortedValues.length - 1
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (sortedValues[mid]! < value) low = mid + 1
+    else high = mid
+  }
+
+  const previous = sortedValues[low - 1]
+  if (previous != null && value - previous < sortedValues[low]! - value) {
+    return low - 1
+  }
+  return low
+}
@@ -0,0 +1,51 @@
+import {
+  runSpring,
+  runTiming,
+  SkiaMutableValue,
+} from '@shopify/react-native-skia'
+import type { GraphAnimationConfig } from '../LineGraphProps'
+
+const DEFAULT_SPRING_CONFIG = {
+  mass: 1,
+  stiffness: 500,
+  damping: 400,
+  velocity: 0,
+}
+export const DEFAULT_TIMING_DURATION = 300
+
+/**
+ * Animates the value to `to` (optionally starting at `from`) as configured by
+ * the `animation` prop, a spring if it is omitted
+ */
+export function runGraphAnimation(
+  value: SkiaMutableValue<number>,
+  to: number | { from: number; to: number },
+  config: GraphAnimationConfig | undefined,
+  onEnd?: () => void
+): void {
+  const callback = onEnd != null ? () => onEnd() : undefined
+
+  if (config?.type === 'timing') {
+    runTiming(
+      value,
+      to,
+      {
+        duration: config.duration ?? DEFAULT_TIMING_DURATION,
+        easing: config.easing,
+      },
+      callback
+    )
+  } else {
+    runSpring(
+      value,
+      to,
+      {
+        mass: config?.mass ?? DEFAULT_SPRING_CONFIG.mass,
+        stiffness: config?.stiffness ?? DEFAULT_SPRING_CONFIG.stiffness,
+        damping: config?.damping ?? DEFAULT_SPRING_CONFIG.damping,
+        velocity: DEFAULT_SPRING_CONFIG.velocity,
+      },
+      callback
+    )
+  }
+}